@@ -0,0 +1,235 @@
+import { Context, Logger } from 'koishi'
+import type { Context as KoaContext } from 'koa'
+import type { File } from 'formidable'
+import {} from '@koishijs/plugin-server'
+import { timingSafeEqual } from 'crypto'
+import { readFile, unlink } from 'fs/promises'
+import { AddResult, StickerAlbumService } from './service'
+import { DownloadError, Downloader } from './download'
+import { EvictionError, formatBytes } from './eviction'
+import { sniffImage } from './format'
+import { parseTags } from './selection'
+import { StickerRecord } from './types'
+
+export interface ApiOptions {
+  /** 路由前缀，如 /sticker-album */
+  path: string
+  /** 访问令牌 */
+  token: string
+  /** 上传文件的大小上限（字节） */
+  maxSize: number
+  downloader: Downloader
+  /** 按配置转换上传图片的格式 */
+  transcode(buffer: Buffer, mime: string): Promise<{ buffer: Buffer, mime: string }>
+  /** 相册是否启用（未启用的相册不能上传和删除） */
+  isEnabled(albumId: string): boolean
+  /** 生成 PNG 格式的缩略图 */
+  thumbnail(record: StickerRecord): Promise<Buffer>
+}
+
+/** 接口中的操作以此身份写入操作日志 */
+const API_OPERATOR = 'api'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+const logger = new Logger('sticker-convert')
+
+/**
+ * 返回给调用方的错误，status 为 HTTP 状态码
+ */
+class ApiError extends Error {
+  constructor(public status: number, message: string, public data?: object) {
+    super(message)
+  }
+}
+
+function verifyToken(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function parsePositive(input: unknown, fallback: number, max = Infinity): number {
+  const value = Math.floor(Number(input))
+  return Number.isFinite(value) && value > 0 ? Math.min(value, max) : fallback
+}
+
+/**
+ * 注册相册管理接口，需要 server 服务
+ *
+ * 请求须携带 `Authorization: Bearer <token>` 请求头或 `token` 查询参数（供 `<img>` 直接加载缩略图）
+ */
+export function registerApi(ctx: Context, albums: StickerAlbumService, options: ApiOptions) {
+  const base = options.path.replace(/\/+$/, '')
+
+  const stickerUrl = (record: StickerRecord, resource: 'file' | 'thumbnail') =>
+    `${base}/albums/${encodeURIComponent(record.channelId)}/stickers/${record.seq}/${resource}`
+
+  // 不对外暴露文件在服务器上的路径
+  const serialize = ({ filePath, ...record }: StickerRecord) => ({
+    ...record,
+    file: stickerUrl(record as StickerRecord, 'file'),
+    thumbnail: stickerUrl(record as StickerRecord, 'thumbnail'),
+  })
+
+  async function findSticker(albumId: string, key: string): Promise<StickerRecord> {
+    const record = await albums.get(albumId, key)
+    if (!record) throw new ApiError(404, `找不到表情 "${key}"`)
+    return record
+  }
+
+  /**
+   * 读取上传的文件（multipart 的 file 字段）或下载 JSON 中 url 指向的图片
+   */
+  async function readUpload(koa: KoaContext, albumId: string): Promise<Buffer> {
+    const files = ([] as File[]).concat(koa.request.files?.file || [])
+    if (files.length > 1) {
+      throw new ApiError(400, '一次只能上传一个文件')
+    }
+    if (files.length) {
+      if (files[0].size > options.maxSize) {
+        throw new ApiError(413, `文件过大，上限为 ${formatBytes(options.maxSize)}`)
+      }
+      return await readFile(files[0].filepath)
+    }
+
+    const url = koa.request.body?.url
+    if (typeof url !== 'string' || !url) {
+      throw new ApiError(400, '请通过 file 字段上传文件，或在 url 字段中提供图片地址')
+    }
+    try {
+      return await options.downloader.download(url, albumId)
+    } catch (error) {
+      if (!(error instanceof DownloadError)) throw error
+      throw new ApiError(error.code === 'tooLarge' ? 413 : 400, error.message)
+    }
+  }
+
+  /**
+   * 删除 formidable 为 multipart 请求写入的临时文件
+   */
+  function removeUploads(koa: KoaContext) {
+    for (const upload of Object.values(koa.request.files || {})) {
+      for (const file of ([] as File[]).concat(upload)) unlink(file.filepath).catch(() => {})
+    }
+  }
+
+  /**
+   * 校验令牌并统一处理错误，响应均为 JSON（文件和缩略图除外）
+   */
+  function route(handler: (koa: KoaContext) => Promise<void>) {
+    return async (koa: KoaContext) => {
+      try {
+        const header = koa.get('authorization').replace(/^Bearer\s+/i, '')
+        const token = header || String(koa.query.token || '')
+        if (!verifyToken(options.token, token)) {
+          koa.status = 401
+          koa.body = { error: '令牌无效' }
+          return
+        }
+        await handler(koa)
+      } catch (error) {
+        if (error instanceof ApiError) {
+          koa.status = error.status
+          koa.body = { error: error.message, ...error.data }
+          return
+        }
+        logger.warn('相册接口出错:', error)
+        koa.status = 500
+        koa.body = { error: error.message }
+      } finally {
+        // 请求体在路由之前就已解析，令牌无效、出错或不接受上传的路由同样会留下临时文件
+        removeUploads(koa)
+      }
+    }
+  }
+
+  function assertEnabled(albumId: string) {
+    if (!options.isEnabled(albumId)) {
+      throw new ApiError(403, '此相册未启用')
+    }
+  }
+
+  // 存有表情的相册
+  ctx.server.get(`${base}/albums`, route(async (koa) => {
+    koa.body = { albums: await albums.albums() }
+  }))
+
+  // 分页列出相册中的表情，顺序与 "表情相册" 命令一致
+  ctx.server.get(`${base}/albums/:albumId/stickers`, route(async (koa) => {
+    const records = await albums.list(koa.params.albumId)
+    const pageSize = parsePositive(koa.query.pageSize, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+    const page = parsePositive(koa.query.page, 1)
+    koa.body = {
+      total: records.length,
+      page,
+      pageSize,
+      items: records.slice((page - 1) * pageSize, page * pageSize).map(serialize),
+    }
+  }))
+
+  ctx.server.get(`${base}/albums/:albumId/stickers/:key`, route(async (koa) => {
+    koa.body = serialize(await findSticker(koa.params.albumId, koa.params.key))
+  }))
+
+  ctx.server.get(`${base}/albums/:albumId/stickers/:key/file`, route(async (koa) => {
+    const record = await findSticker(koa.params.albumId, koa.params.key)
+    koa.body = await albums.getBuffer(record)
+    koa.type = record.mime
+    koa.attachment(record.name ? `${record.name}.${record.ext}` : record.fileName)
+  }))
+
+  ctx.server.get(`${base}/albums/:albumId/stickers/:key/thumbnail`, route(async (koa) => {
+    const record = await findSticker(koa.params.albumId, koa.params.key)
+    koa.body = await options.thumbnail(record)
+    koa.type = 'image/png'
+    // 缩略图由文件内容决定，内容不变时可以长期缓存
+    koa.set('Cache-Control', 'private, max-age=86400')
+  }))
+
+  // 上传表情，与转存相同：按内容识别格式并按配置转换，重复时拒绝，相册已满时按策略移除旧表情
+  ctx.server.post(`${base}/albums/:albumId/stickers`, route(async (koa) => {
+    const { albumId } = koa.params
+    assertEnabled(albumId)
+    let buffer = await readUpload(koa, albumId)
+    try {
+      ({ buffer } = await options.transcode(buffer, sniffImage(buffer).mime))
+    } catch (error) {
+      throw new ApiError(400, error.message)
+    }
+
+    const body = koa.request.body || {}
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name : undefined
+    const nameError = name && await albums.checkName(albumId, name)
+    if (nameError) {
+      throw new ApiError(400, nameError)
+    }
+    let result: AddResult
+    try {
+      result = await albums.add(albumId, {
+        buffer,
+        uploaderId: typeof body.uploaderId === 'string' && body.uploaderId ? body.uploaderId : API_OPERATOR,
+        name,
+        tags: parseTags(body.tags),
+      }, { operatorId: API_OPERATOR })
+    } catch (error) {
+      if (!(error instanceof EvictionError)) throw error
+      throw new ApiError(error.code === 'tooLarge' ? 413 : 409, error.message)
+    }
+    if ('duplicate' in result) {
+      const { record, distance } = result.duplicate
+      throw new ApiError(409, '相册中已有相同或相似的表情', { duplicate: serialize(record), distance })
+    }
+    koa.status = 201
+    koa.body = { sticker: serialize(result.record), evicted: result.evicted.map(serialize) }
+  }))
+
+  // 删除表情，启用回收站时移入回收站
+  ctx.server.delete(`${base}/albums/:albumId/stickers/:key`, route(async (koa) => {
+    assertEnabled(koa.params.albumId)
+    const record = await findSticker(koa.params.albumId, koa.params.key)
+    await albums.delete(record, 'delete', API_OPERATOR)
+    koa.body = { deleted: serialize(record) }
+  }))
+}
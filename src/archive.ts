@@ -0,0 +1,143 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate'
+import { formatBytes } from './eviction'
+
+/** 导出文件格式版本，格式不兼容时递增 */
+export const MANIFEST_VERSION = 1
+
+const MANIFEST_FILE = 'manifest.json'
+
+/** 清单中的单个表情，不包含本机路径等与实例相关的字段 */
+export interface ManifestEntry {
+  /** 压缩包内的文件路径 */
+  file: string
+  seq: number
+  md5: string
+  mime: string
+  ext: string
+  size: number
+  isGif: boolean
+  name: string
+  tags: string[]
+  pinned: boolean
+  uploaderId: string
+  createdAt: string
+}
+
+export interface AlbumManifest {
+  version: number
+  /** 导出时的相册标识，仅供参考 */
+  albumId: string
+  exportedAt: string
+  entries: ManifestEntry[]
+}
+
+/** 解压时的限制，防止解压后体积过大的压缩包（zip 炸弹）耗尽内存 */
+export interface UnpackLimits {
+  /** 单个文件解压后的大小上限（字节） */
+  maxFileSize: number
+  /** 所有文件解压后的总大小上限（字节） */
+  maxTotalSize: number
+  /** 压缩包中的文件数上限 */
+  maxEntries: number
+}
+
+export interface ArchiveFile {
+  entry: ManifestEntry
+  data: Uint8Array
+}
+
+/**
+ * 将表情文件和清单打包为 zip
+ */
+export function packAlbum(albumId: string, files: ArchiveFile[]): Buffer {
+  const manifest: AlbumManifest = {
+    version: MANIFEST_VERSION,
+    albumId,
+    exportedAt: new Date().toISOString(),
+    entries: files.map(file => file.entry),
+  }
+
+  // 图片本身已经压缩过，直接存储即可
+  const zippable: Zippable = {
+    [MANIFEST_FILE]: [strToU8(JSON.stringify(manifest, null, 2)), { level: 6 }],
+  }
+  for (const { entry, data } of files) {
+    zippable[entry.file] = [data, { level: 0 }]
+  }
+  return Buffer.from(zipSync(zippable))
+}
+
+/**
+ * 解析导出的压缩包，返回清单和其中的文件
+ */
+export function unpackAlbum(buffer: Buffer, limits: UnpackLimits): { manifest: AlbumManifest, files: Record<string, Uint8Array> } {
+  let files: Record<string, Uint8Array>
+  let limitError: Error | undefined
+  let count = 0
+  let totalSize = 0
+  try {
+    files = unzipSync(buffer, {
+      // 解压缓冲区按文件头中声明的大小分配，实际数据超出部分会被截断，因此在解压前按声明的大小检查即可
+      filter(file) {
+        if (++count > limits.maxEntries) {
+          limitError ||= new Error(`压缩包中的文件过多（上限 ${limits.maxEntries} 个）`)
+        } else if (file.originalSize > limits.maxFileSize) {
+          limitError ||= new Error(`压缩包中的文件 ${file.name} 过大（${formatBytes(file.originalSize)}），上限为 ${formatBytes(limits.maxFileSize)}`)
+        } else if ((totalSize += file.originalSize) > limits.maxTotalSize) {
+          limitError ||= new Error(`压缩包解压后过大，上限为 ${formatBytes(limits.maxTotalSize)}`)
+        }
+        return !limitError
+      },
+    })
+  } catch (error) {
+    throw new Error('无法解压，文件不是有效的 zip 压缩包')
+  }
+  if (limitError) throw limitError
+
+  if (!files[MANIFEST_FILE]) {
+    throw new Error('压缩包中缺少 manifest.json，不是表情相册导出文件')
+  }
+
+  let manifest: AlbumManifest
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_FILE]))
+  } catch (error) {
+    throw new Error('manifest.json 格式错误')
+  }
+  if (manifest.version > MANIFEST_VERSION) {
+    throw new Error(`导出文件版本（${manifest.version}）高于当前插件支持的版本，请先更新插件`)
+  }
+  if (!Array.isArray(manifest.entries)) {
+    throw new Error('manifest.json 中缺少表情列表')
+  }
+  manifest.entries.forEach((entry, index) => {
+    const field = invalidField(entry)
+    if (field) {
+      throw new Error(`manifest.json 中第 ${index + 1} 个表情的 ${field} 字段无效`)
+    }
+  })
+  return { manifest, files }
+}
+
+const entryFields: Record<keyof ManifestEntry, (value: any) => boolean> = {
+  file: value => typeof value === 'string' && !!value,
+  seq: value => Number.isSafeInteger(value) && value > 0,
+  md5: value => typeof value === 'string' && /^[0-9a-f]{32}$/.test(value),
+  mime: value => typeof value === 'string',
+  ext: value => typeof value === 'string',
+  size: value => Number.isSafeInteger(value) && value >= 0,
+  isGif: value => typeof value === 'boolean',
+  name: value => typeof value === 'string',
+  tags: value => Array.isArray(value) && value.every(tag => typeof tag === 'string'),
+  pinned: value => typeof value === 'boolean',
+  uploaderId: value => typeof value === 'string',
+  createdAt: value => typeof value === 'string' && (!value || !Number.isNaN(Date.parse(value))),
+}
+
+/**
+ * 检查清单条目各字段的类型，返回第一个无效的字段名
+ */
+function invalidField(entry: unknown): string | undefined {
+  if (!entry || typeof entry !== 'object') return 'file'
+  return Object.keys(entryFields).find((key) => !entryFields[key](entry[key as keyof typeof entry]))
+}
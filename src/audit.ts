@@ -0,0 +1,135 @@
+import { Context, Query } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    sticker_audit: AuditEntry
+  }
+}
+
+/** 审计日志记录的操作 */
+export type AuditAction = 'save' | 'delete' | 'clear' | 'evict' | 'restore' | 'move' | 'repair' | 'bind' | 'unbind' | 'denied'
+
+export const auditActionNames: Record<AuditAction, string> = {
+  save: '转存',
+  delete: '删除',
+  clear: '清空',
+  evict: '容量清理',
+  restore: '恢复',
+  move: '移出',
+  repair: '检查修复',
+  bind: '绑定触发词',
+  unbind: '解绑触发词',
+  denied: '权限不足',
+}
+
+/** 一条相册操作记录 */
+export interface AuditEntry {
+  id: number
+  /** 相册标识 */
+  channelId: string
+  action: AuditAction
+  /** 执行操作的用户，容量清理时为空 */
+  operatorId: string
+  /** 涉及的表情，权限不足等操作可能为空 */
+  md5: string
+  seq: number
+  /** 补充说明，如被拒绝的操作 */
+  detail: string
+  createdAt: Date
+}
+
+export type AuditInput = Omit<AuditEntry, 'id' | 'createdAt' | 'md5' | 'seq' | 'detail'>
+  & Partial<Pick<AuditEntry, 'md5' | 'seq' | 'detail'>>
+
+export interface AuditFilter {
+  operatorId?: string
+  action?: AuditAction
+  since?: Date
+  until?: Date
+  limit: number
+}
+
+function parseDate(input: string): Date {
+  const [year, month, day] = input.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * 解析时间范围：24h、7d（最近一段时间）或 2024-05-01~2024-05-10（包含结束当天）
+ */
+export function parseTimeRange(input: string): { since?: Date, until?: Date } {
+  const value = input.trim()
+  let match: RegExpMatchArray | null
+  if ((match = value.match(/^(\d+)\s*([hd])$/i))) {
+    const hours = +match[1] * (match[2].toLowerCase() === 'd' ? 24 : 1)
+    return { since: new Date(Date.now() - hours * 60 * 60 * 1000) }
+  }
+  if ((match = value.match(/^(\d{4}-\d{1,2}-\d{1,2})(?:\s*[~～]\s*(\d{4}-\d{1,2}-\d{1,2}))?$/))) {
+    const since = parseDate(match[1])
+    const until = parseDate(match[2] || match[1])
+    until.setDate(until.getDate() + 1)
+    return { since, until }
+  }
+  throw new Error(`无效的时间范围 "${input}"，示例：24h、7d、2024-05-01~2024-05-10`)
+}
+
+/**
+ * 相册操作审计日志
+ */
+export class AuditLog {
+  constructor(private ctx: Context) {
+    ctx.model.extend('sticker_audit', {
+      id: 'unsigned',
+      channelId: 'string',
+      action: 'string',
+      operatorId: 'string',
+      md5: 'string',
+      seq: 'unsigned',
+      detail: 'string',
+      createdAt: 'timestamp',
+    }, {
+      primary: 'id',
+      autoInc: true,
+    })
+  }
+
+  async write(input: AuditInput): Promise<void> {
+    await this.ctx.database.create('sticker_audit', {
+      md5: '',
+      seq: 0,
+      detail: '',
+      ...input,
+      createdAt: new Date(),
+    })
+  }
+
+  /**
+   * 按条件查询相册的操作记录（按时间倒序）
+   */
+  async query(channelId: string, filter: AuditFilter): Promise<AuditEntry[]> {
+    const query: Query.Expr<AuditEntry> = { channelId }
+    if (filter.operatorId) query.operatorId = filter.operatorId
+    if (filter.action) query.action = filter.action
+    if (filter.since || filter.until) {
+      query.createdAt = {
+        ...filter.since && { $gte: filter.since },
+        ...filter.until && { $lt: filter.until },
+      }
+    }
+    return await this.ctx.database
+      .select('sticker_audit')
+      .where(query)
+      .orderBy('createdAt', 'desc')
+      .limit(filter.limit)
+      .execute()
+  }
+
+  /**
+   * 删除早于指定天数的记录
+   */
+  async prune(retentionDays: number): Promise<number> {
+    const expiry = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+    const result = await this.ctx.database.remove('sticker_audit', { createdAt: { $lt: expiry } })
+    return result.matched ?? 0
+  }
+}
@@ -0,0 +1,227 @@
+import { $, Context, RuntimeError } from 'koishi'
+import { resolve, sep } from 'path'
+import { existsSync } from 'fs'
+import { mkdir, readdir, rename, stat, unlink, writeFile } from 'fs/promises'
+
+declare module 'koishi' {
+  interface Tables {
+    sticker_blob: StickerBlob
+  }
+}
+
+/** 按内容哈希存储的表情文件，多个相册记录可共用同一文件 */
+export interface StickerBlob {
+  md5: string
+  ext: string
+  mime: string
+  size: number
+  /** 引用该文件的记录数，归零时删除文件 */
+  refCount: number
+  createdAt: Date
+}
+
+/** 引用文件的一条记录，用于重新统计引用计数 */
+export interface BlobReference {
+  md5: string
+  ext: string
+  mime: string
+}
+
+/**
+ * 内容寻址的文件存储：文件路径只由内容哈希决定，并按引用计数回收
+ *
+ * thumbnailDir 中以 `<哈希>-` 开头的缩略图随文件一起删除
+ */
+export class BlobStore {
+  // 同一文件的保存、引用和释放依次执行，避免释放时删掉刚被重新引用的文件
+  private queues = new Map<string, Promise<unknown>>()
+
+  constructor(private ctx: Context, public readonly root: string, private thumbnailDir?: string) {
+    ctx.model.extend('sticker_blob', {
+      md5: 'string',
+      ext: 'string',
+      mime: 'string',
+      size: 'unsigned',
+      refCount: 'unsigned',
+      createdAt: 'timestamp',
+    }, {
+      primary: 'md5',
+    })
+  }
+
+  /**
+   * 文件按哈希前两位分目录存放，避免单个目录文件过多
+   */
+  pathFor(md5: string, ext: string): string {
+    return resolve(this.root, md5.slice(0, 2), `${md5}.${ext}`)
+  }
+
+  isManaged(filePath: string): boolean {
+    // 加上分隔符，避免 blobs-old 等同名前缀的目录也被认为在存储目录中
+    return resolve(filePath).startsWith(resolve(this.root) + sep)
+  }
+
+  private exclusive<T>(md5: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(md5) || Promise.resolve()).catch(() => {}).then(task)
+    this.queues.set(md5, result)
+    const cleanup = () => {
+      if (this.queues.get(md5) === result) this.queues.delete(md5)
+    }
+    result.then(cleanup, cleanup)
+    return result
+  }
+
+  /**
+   * 写入文件（已存在则复用）并增加一次引用，返回文件路径
+   */
+  acquire(buffer: Buffer, md5: string, ext: string, mime: string): Promise<string> {
+    return this.exclusive(md5, () => this.doAcquire(buffer, md5, ext, mime))
+  }
+
+  private async doAcquire(buffer: Buffer, md5: string, ext: string, mime: string): Promise<string> {
+    // 先登记引用再写文件，同时释放最后一个引用时不会删掉刚写入的文件
+    try {
+      await this.ctx.database.create('sticker_blob', {
+        md5,
+        ext,
+        mime,
+        size: buffer.length,
+        refCount: 1,
+        createdAt: new Date(),
+      })
+    } catch (error) {
+      // 已有记录时只增加引用
+      if (!RuntimeError.check(error, 'duplicate-entry')) throw error
+      await this.increment(md5)
+    }
+
+    const filePath = this.pathFor(md5, ext)
+    if (!existsSync(filePath)) {
+      await mkdir(resolve(filePath, '..'), { recursive: true })
+      // 先写临时文件再重命名，避免中断后留下不完整的文件
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+      await writeFile(tempPath, buffer)
+      await rename(tempPath, filePath)
+    }
+    return filePath
+  }
+
+  /**
+   * 增加一次引用（复制记录时使用）
+   */
+  retain(md5: string): Promise<void> {
+    return this.exclusive(md5, () => this.increment(md5))
+  }
+
+  private async increment(md5: string): Promise<void> {
+    await this.ctx.database.set('sticker_blob', { md5 }, row => ({ refCount: $.add(row.refCount, 1) }))
+  }
+
+  /**
+   * 释放一次引用，最后一个引用释放时删除文件
+   */
+  release(md5: string): Promise<boolean> {
+    return this.exclusive(md5, () => this.doRelease(md5))
+  }
+
+  private async doRelease(md5: string): Promise<boolean> {
+    // 先在数据库中原子地减少引用，再按减少后的结果决定是否删除
+    await this.ctx.database.set('sticker_blob', { md5, refCount: { $gt: 0 } }, row => ({ refCount: $.sub(row.refCount, 1) }))
+    const [blob] = await this.ctx.database.get('sticker_blob', { md5 })
+    if (!blob || blob.refCount > 0) return false
+
+    // 只有引用仍为 0 时才删除，期间被重新引用的文件保留
+    const { matched } = await this.ctx.database.remove('sticker_blob', { md5, refCount: 0 })
+    if (!matched) return false
+    const filePath = this.pathFor(md5, blob.ext)
+    if (existsSync(filePath)) {
+      await unlink(filePath)
+    }
+    await this.removeThumbnails(name => name.startsWith(`${md5}-`))
+    return true
+  }
+
+  /**
+   * 删除符合条件的缩略图，返回删除的数量
+   */
+  private async removeThumbnails(filter: (name: string) => boolean): Promise<number> {
+    if (!this.thumbnailDir || !existsSync(this.thumbnailDir)) return 0
+    let removed = 0
+    for (const name of await readdir(this.thumbnailDir)) {
+      if (!filter(name)) continue
+      await unlink(resolve(this.thumbnailDir, name)).catch(() => {})
+      removed++
+    }
+    return removed
+  }
+
+  /**
+   * 按实际文件内容更新文件记录的类型和大小
+   */
+  async describe(md5: string, fields: Pick<StickerBlob, 'mime' | 'ext' | 'size'>): Promise<void> {
+    await this.ctx.database.set('sticker_blob', { md5 }, fields)
+  }
+
+  /**
+   * 将旧版本按日期命名的文件移入存储目录，返回新路径
+   */
+  async adopt(filePath: string, md5: string, ext: string): Promise<string> {
+    const target = this.pathFor(md5, ext)
+    if (resolve(filePath) === target || !existsSync(filePath)) return target
+    if (existsSync(target)) {
+      // 内容相同的文件已经迁移过，旧文件直接删除
+      await unlink(filePath)
+    } else {
+      await mkdir(resolve(target, '..'), { recursive: true })
+      await rename(filePath, target)
+    }
+    return target
+  }
+
+  /**
+   * 按记录重新统计引用计数：补齐缺失的文件记录，回收没有引用的文件
+   */
+  async recount(references: BlobReference[]): Promise<number> {
+    const counts = new Map<string, number>()
+    for (const ref of references) {
+      counts.set(ref.md5, (counts.get(ref.md5) || 0) + 1)
+    }
+
+    const blobs = await this.ctx.database.get('sticker_blob', {})
+    const known = new Set(blobs.map(blob => blob.md5))
+    for (const ref of references) {
+      if (known.has(ref.md5)) continue
+      known.add(ref.md5)
+      const filePath = this.pathFor(ref.md5, ref.ext)
+      if (!existsSync(filePath)) continue
+      await this.ctx.database.create('sticker_blob', {
+        md5: ref.md5,
+        ext: ref.ext,
+        mime: ref.mime,
+        size: (await stat(filePath)).size,
+        refCount: counts.get(ref.md5)!,
+        createdAt: new Date(),
+      })
+    }
+
+    let removed = 0
+    for (const blob of blobs) {
+      const count = counts.get(blob.md5) || 0
+      if (count === blob.refCount) continue
+      if (count > 0) {
+        await this.ctx.database.set('sticker_blob', { md5: blob.md5 }, { refCount: count })
+        continue
+      }
+      await this.ctx.database.remove('sticker_blob', { md5: blob.md5 })
+      const filePath = this.pathFor(blob.md5, blob.ext)
+      if (existsSync(filePath)) {
+        await unlink(filePath)
+      }
+      removed++
+    }
+
+    // 文件已被删除的缩略图（包括旧版本留下的）一并清理
+    await this.removeThumbnails(name => !counts.has(name.split('-')[0]))
+    return removed
+  }
+}
@@ -0,0 +1,256 @@
+import { PNG } from 'pngjs'
+import * as jpeg from 'jpeg-js'
+import { GifReader } from 'omggif'
+import { GIFEncoder, quantize, applyPalette } from 'gifenc'
+import WebP from 'node-webpmux'
+import { sniffImage } from './format'
+
+/** 单帧 RGBA 像素数据 */
+export interface Frame {
+  /** RGBA 像素，长度为 width * height * 4 */
+  data: Uint8Array
+  /** 帧时长（毫秒） */
+  delay: number
+}
+
+/** 解码后的图片（静态图片只有一帧） */
+export interface DecodedImage {
+  width: number
+  height: number
+  frames: Frame[]
+}
+
+export type OutputFormat = 'png' | 'gif' | 'webp' | 'jpg'
+
+export const formatMimes: Record<OutputFormat, string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  jpg: 'image/jpeg',
+}
+
+export function isOutputFormat(format: string): format is OutputFormat {
+  // 不能用 in，否则 toString 等继承的属性也会通过
+  return Object.hasOwn(formatMimes, format)
+}
+
+/** 浏览器和 QQ 对过短帧间隔的处理方式：统一按 100ms 播放 */
+const DEFAULT_DELAY = 100
+
+let webpReady: Promise<void>
+
+/**
+ * libwebp 为打包在依赖中的 wasm，首次使用时加载
+ */
+function initWebP(): Promise<void> {
+  return webpReady ||= WebP.Image.initLib()
+}
+
+/**
+ * 判断 WebP 是否为动图（VP8X 块的动画标志位）
+ */
+export function isAnimatedWebP(buffer: Buffer): boolean {
+  return buffer.length >= 21
+    && buffer.toString('ascii', 12, 16) === 'VP8X'
+    && (buffer[20] & 0b00000010) !== 0
+}
+
+/** 解码结果的像素总数上限（宽 × 高 × 帧数），约占 256MB 内存 */
+export const MAX_DECODE_PIXELS = 64 * 1024 * 1024
+
+export interface DecodeOptions {
+  /** 最多解码的帧数，只需要第一帧（计算哈希、缩略图）时传 1 */
+  maxFrames?: number
+}
+
+/**
+ * 按文件头中的尺寸和帧数估算解码后的大小，超出上限时抛出错误
+ *
+ * 压缩率很高的图片（如大尺寸纯色 GIF）解码后可能占用数 GB 内存
+ */
+export function checkDecodeSize(buffer: Buffer, maxFrames = Infinity) {
+  const { width, height, frameCount } = sniffImage(buffer)
+  const frames = Math.min(Math.max(frameCount, 1), maxFrames)
+  if (width * height * frames > MAX_DECODE_PIXELS) {
+    throw new Error(`图片过大（${width}×${height}${frameCount > 1 ? `，${frameCount} 帧` : ''}），无法处理`)
+  }
+}
+
+/**
+ * 将图片解码为 RGBA 帧序列
+ */
+export async function decodeImage(buffer: Buffer, mime: string, options: DecodeOptions = {}): Promise<DecodedImage> {
+  const maxFrames = Math.max(options.maxFrames ?? Infinity, 1)
+  checkDecodeSize(buffer, maxFrames)
+  switch (mime) {
+    case 'image/png': {
+      const png = PNG.sync.read(buffer)
+      return { width: png.width, height: png.height, frames: [{ data: png.data, delay: 0 }] }
+    }
+    case 'image/jpeg': {
+      const { width, height, data } = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true })
+      return { width, height, frames: [{ data, delay: 0 }] }
+    }
+    case 'image/gif':
+      return decodeGif(buffer, maxFrames)
+    case 'image/webp':
+      return decodeWebP(buffer, maxFrames)
+    default:
+      throw new Error(`不支持解码的图片格式: ${mime}`)
+  }
+}
+
+function decodeGif(buffer: Buffer, maxFrames: number): DecodedImage {
+  const reader = new GifReader(buffer)
+  const { width, height } = reader
+  const canvas = new Uint8Array(width * height * 4)
+  const frames: Frame[] = []
+
+  for (let i = 0; i < Math.min(reader.numFrames(), maxFrames); i++) {
+    const info = reader.frameInfo(i)
+    const previous = info.disposal === 3 ? canvas.slice() : undefined
+    reader.decodeAndBlitFrameRGBA(i, canvas)
+    frames.push({ data: canvas.slice(), delay: info.delay >= 2 ? info.delay * 10 : DEFAULT_DELAY })
+
+    // 处理帧的清除方式：2 恢复为背景（透明），3 恢复为上一帧
+    if (info.disposal === 2) {
+      clearRect(canvas, width, info.x, info.y, info.width, info.height)
+    } else if (previous) {
+      canvas.set(previous)
+    }
+  }
+
+  return { width, height, frames }
+}
+
+async function decodeWebP(buffer: Buffer, maxFrames: number): Promise<DecodedImage> {
+  await initWebP()
+  const image = new WebP.Image()
+  await image.load(buffer)
+  const { width, height } = image
+
+  if (!image.hasAnim) {
+    return { width, height, frames: [{ data: await image.getImageData(), delay: 0 }] }
+  }
+
+  const canvas = new Uint8Array(width * height * 4)
+  const frames: Frame[] = []
+  for (let i = 0; i < Math.min(image.frames.length, maxFrames); i++) {
+    const frame = image.frames[i]
+    const pixels = await image.getFrameData(i)
+    // ANMF 中的偏移量以 2 像素为单位存储
+    const x = frame.x * 2
+    const y = frame.y * 2
+    drawRect(canvas, width, height, pixels, x, y, frame.width, frame.height, frame.blend)
+    frames.push({ data: canvas.slice(), delay: frame.delay || DEFAULT_DELAY })
+    if (frame.dispose) {
+      clearRect(canvas, width, x, y, frame.width, frame.height)
+    }
+  }
+
+  return { width, height, frames }
+}
+
+function clearRect(canvas: Uint8Array, width: number, x: number, y: number, w: number, h: number) {
+  for (let row = y; row < y + h; row++) {
+    canvas.fill(0, (row * width + x) * 4, (row * width + x + w) * 4)
+  }
+}
+
+function drawRect(canvas: Uint8Array, width: number, height: number, pixels: Uint8Array, x: number, y: number, w: number, h: number, blend: boolean) {
+  for (let row = 0; row < h && y + row < height; row++) {
+    for (let col = 0; col < w && x + col < width; col++) {
+      const src = (row * w + col) * 4
+      const dst = ((y + row) * width + x + col) * 4
+      const alpha = pixels[src + 3]
+      if (!blend || alpha === 255 || canvas[dst + 3] === 0) {
+        canvas.set(pixels.subarray(src, src + 4), dst)
+      } else if (alpha > 0) {
+        // 按 alpha 混合到已有像素上
+        const base = canvas[dst + 3] * (255 - alpha) / 255
+        const outAlpha = alpha + base
+        for (let c = 0; c < 3; c++) {
+          canvas[dst + c] = Math.round((pixels[src + c] * alpha + canvas[dst + c] * base) / outAlpha)
+        }
+        canvas[dst + 3] = Math.round(outAlpha)
+      }
+    }
+  }
+}
+
+/**
+ * 将 RGBA 帧序列编码为指定格式（png/jpg 仅保留第一帧）
+ */
+export async function encodeImage(image: DecodedImage, format: OutputFormat): Promise<Buffer> {
+  switch (format) {
+    case 'png': {
+      const png = new PNG({ width: image.width, height: image.height })
+      png.data = Buffer.from(image.frames[0].data)
+      return PNG.sync.write(png)
+    }
+    case 'jpg': {
+      // JPEG 不支持透明，先合成到白色背景上
+      const data = flattenAlpha(image.frames[0].data)
+      return jpeg.encode({ width: image.width, height: image.height, data }, 90).data
+    }
+    case 'gif':
+      return encodeGif(image)
+    case 'webp':
+      return encodeWebP(image)
+  }
+}
+
+function flattenAlpha(rgba: Uint8Array): Buffer {
+  const out = Buffer.alloc(rgba.length)
+  for (let i = 0; i < rgba.length; i += 4) {
+    const alpha = rgba[i + 3] / 255
+    for (let c = 0; c < 3; c++) {
+      out[i + c] = Math.round(rgba[i + c] * alpha + 255 * (1 - alpha))
+    }
+    out[i + 3] = 255
+  }
+  return out
+}
+
+function encodeGif(image: DecodedImage): Buffer {
+  const gif = GIFEncoder()
+  for (const frame of image.frames) {
+    const palette = quantize(frame.data, 256, { format: 'rgba4444', oneBitAlpha: true })
+    const index = applyPalette(frame.data, palette, 'rgba4444')
+    const transparentIndex = palette.findIndex(color => color[3] === 0)
+    gif.writeFrame(index, image.width, image.height, {
+      palette,
+      delay: frame.delay || DEFAULT_DELAY,
+      transparent: transparentIndex >= 0,
+      transparentIndex: Math.max(transparentIndex, 0),
+      // 每帧都是完整画面，绘制前需要清除上一帧
+      dispose: 2,
+    })
+  }
+  gif.finish()
+  return Buffer.from(gif.bytes())
+}
+
+async function encodeWebP(image: DecodedImage): Promise<Buffer> {
+  await initWebP()
+  const encodeFrame = async (frame: Frame) => {
+    const img = await WebP.Image.getEmptyImage()
+    await img.setImageData(Buffer.from(frame.data), { width: image.width, height: image.height, quality: 90 })
+    return img
+  }
+
+  if (image.frames.length === 1) {
+    return (await encodeFrame(image.frames[0])).save(null)
+  }
+
+  const frames = []
+  for (const frame of image.frames) {
+    frames.push(await WebP.Image.generateFrame({
+      img: await encodeFrame(frame),
+      delay: frame.delay || DEFAULT_DELAY,
+      blend: false,
+      dispose: true,
+    }))
+  }
+  return WebP.Image.save(null, { width: image.width, height: image.height, frames, loops: 0 })
+}
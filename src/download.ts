@@ -0,0 +1,237 @@
+import { Context, sleep } from 'koishi'
+import { Agent, fetch } from 'undici'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { lookup } from 'dns'
+import { formatBytes } from './eviction'
+
+/** 下载失败的原因 */
+export type DownloadErrorCode = 'invalid' | 'blocked' | 'tooLarge' | 'timeout' | 'status' | 'network'
+
+/**
+ * 下载失败，message 可直接展示给用户
+ */
+export class DownloadError extends Error {
+  constructor(public code: DownloadErrorCode, message: string, public retryable = false) {
+    super(message)
+    this.name = 'DownloadError'
+  }
+}
+
+export interface DownloadOptions {
+  /** 单个文件的大小上限（字节） */
+  maxSize: number
+  /** 单次请求的超时时间（毫秒），包括读取内容的时间 */
+  timeout: number
+  /** 网络错误、超时和服务器错误时的重试次数 */
+  retries: number
+  /** 同时进行的下载数 */
+  concurrency: number
+  /** 每个频道同时进行的下载数 */
+  channelConcurrency: number
+  /** 允许下载本机和内网地址 */
+  allowPrivate: boolean
+}
+
+const MAX_REDIRECTS = 5
+const RETRY_DELAY = 500
+
+/** 本机、内网、链路本地和保留地址，IPv4 映射的 IPv6 地址按 IPv4 规则检查 */
+const privateNetworks = new BlockList()
+for (const subnet of [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+  '192.0.0.0/24', '192.0.2.0/24', '192.88.99.0/24', '192.168.0.0/16', '198.18.0.0/15',
+  '198.51.100.0/24', '203.0.113.0/24', '224.0.0.0/4', '240.0.0.0/4',
+]) {
+  const [network, prefix] = subnet.split('/')
+  privateNetworks.addSubnet(network, +prefix, 'ipv4')
+}
+for (const subnet of [
+  '::/96', '100::/64', '2001:2::/48', '2001:10::/28', '2001:db8::/32', '2002::/16',
+  '3ffe::/16', 'fc00::/7', 'fe80::/10', 'fec0::/10', 'ff00::/8',
+]) {
+  const [network, prefix] = subnet.split('/')
+  privateNetworks.addSubnet(network, +prefix, 'ipv6')
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address)
+  return !family || privateNetworks.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+const blocked = () => new DownloadError('blocked', '出于安全考虑，不允许下载本机或内网地址的文件')
+
+/**
+ * 解析域名并拒绝内网地址，连接直接使用检查过的地址，避免再次解析时被换成内网地址（DNS rebinding）
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    // 解析失败时无法确认地址，不发起连接
+    if (error) return callback(error, '', 0)
+    if (!addresses.length || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(blocked(), '', 0)
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/**
+ * 简单的计数信号量，超出上限的任务按顺序等待
+ */
+class Semaphore {
+  private active = 0
+  private queue: (() => void)[] = []
+
+  constructor(private limit: number) {}
+
+  get idle() {
+    return this.active === 0 && this.queue.length === 0
+  }
+
+  async acquire(): Promise<() => void> {
+    if (this.active < this.limit) {
+      this.active++
+    } else {
+      // 等待释放的任务直接把名额交给下一个
+      await new Promise<void>(resolve => this.queue.push(resolve))
+    }
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      const next = this.queue.shift()
+      if (next) next()
+      else this.active--
+    }
+  }
+}
+
+/**
+ * 表情下载器：限制文件大小和并发数，拒绝内网地址，临时错误自动重试
+ */
+export class Downloader {
+  private global: Semaphore
+  private channels = new Map<string, Semaphore>()
+  private agent: Agent
+
+  constructor(ctx: Context, private options: DownloadOptions) {
+    this.global = new Semaphore(options.concurrency)
+    this.agent = new Agent(options.allowPrivate ? {} : { connect: { lookup: publicLookup } })
+    ctx.on('dispose', () => this.agent.close())
+  }
+
+  async download(url: string, channelId: string, maxSize = this.options.maxSize): Promise<Buffer> {
+    try {
+      new URL(url)
+    } catch {
+      throw new DownloadError('invalid', '无效的下载地址')
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limit(channelId, () => this.fetch(url, maxSize))
+      } catch (error) {
+        if (!(error instanceof DownloadError) || !error.retryable || attempt >= this.options.retries) {
+          throw error
+        }
+        await sleep(RETRY_DELAY * 2 ** attempt)
+      }
+    }
+  }
+
+  private async limit<T>(channelId: string, task: () => Promise<T>): Promise<T> {
+    let channel = this.channels.get(channelId)
+    if (!channel) {
+      channel = new Semaphore(this.options.channelConcurrency)
+      this.channels.set(channelId, channel)
+    }
+    const releaseChannel = await channel.acquire()
+    const releaseGlobal = await this.global.acquire()
+    try {
+      return await task()
+    } finally {
+      releaseGlobal()
+      releaseChannel()
+      if (channel.idle) this.channels.delete(channelId)
+    }
+  }
+
+  /**
+   * 下载一次，边读取边检查大小，超出上限时立即中断
+   */
+  private async fetch(url: string, maxSize: number): Promise<Buffer> {
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, this.options.timeout)
+    const tooLarge = () => new DownloadError('tooLarge', `文件过大，上限为 ${formatBytes(maxSize)}`)
+
+    try {
+      const response = await this.request(url, controller.signal)
+      if (Number(response.headers.get('content-length')) > maxSize) {
+        controller.abort()
+        throw tooLarge()
+      }
+
+      const chunks: Uint8Array[] = []
+      let size = 0
+      for await (const chunk of response.body ?? []) {
+        size += chunk.length
+        if (size > maxSize) {
+          controller.abort()
+          throw tooLarge()
+        }
+        chunks.push(chunk)
+      }
+      return Buffer.concat(chunks)
+    } catch (error) {
+      if (error instanceof DownloadError) throw error
+      if (error.cause instanceof DownloadError) throw error.cause
+      if (timedOut) {
+        throw new DownloadError('timeout', `下载超时（${this.options.timeout / 1000} 秒）`, true)
+      }
+      throw new DownloadError('network', `下载失败: ${error.cause?.message || error.message}`, true)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * 发起请求并手动跟随重定向，每一跳都检查目标地址
+   */
+  private async request(url: string, signal: AbortSignal) {
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      if (!url.startsWith('data:') && !this.options.allowPrivate && this.isBlocked(url)) {
+        throw blocked()
+      }
+
+      const response = await fetch(url, { redirect: 'manual', signal, dispatcher: this.agent })
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel()
+        url = new URL(location, url).href
+        continue
+      }
+      if (response.status >= 400) {
+        await response.body?.cancel()
+        // 限流和服务器错误可能是暂时的，客户端错误重试也无济于事
+        const retryable = response.status >= 500 || response.status === 429
+        throw new DownloadError('status', `服务器返回错误（${response.status}）`, retryable)
+      }
+      return response
+    }
+    throw new DownloadError('network', '重定向次数过多')
+  }
+
+  /**
+   * 连接前能确定的检查：非 HTTP 协议和内网 IP（直接使用 IP 时不经过域名解析）
+   */
+  private isBlocked(url: string): boolean {
+    const { protocol, hostname } = new URL(url)
+    if (protocol !== 'http:' && protocol !== 'https:') return true
+    const address = hostname.replace(/^\[(.+)\]$/, '$1')
+    return isIP(address) !== 0 && isPrivateAddress(address)
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * 无法腾出空间：tooLarge 为表情本身超过空间上限，full 为剩余表情均不能移除
+ */
+export class EvictionError extends Error {
+  constructor(public code: 'tooLarge' | 'full', message: string) {
+    super(message)
+    this.name = 'EvictionError'
+  }
+}
+
+/** 相册已满时选择移除对象的策略 */
+export type EvictionPolicy = 'oldest' | 'leastRecent' | 'leastFrequent' | 'largest'
+
+/** 参与淘汰排序所需的记录字段 */
+export interface EvictionCandidate {
+  md5: string
+  /** 置顶的表情不会被移除 */
+  pinned?: boolean
+  size: number
+  sendCount: number
+  lastSentAt?: Date
+  createdAt: Date
+}
+
+function time(date?: Date): number {
+  return date ? new Date(date).getTime() : 0
+}
+
+const comparators: Record<EvictionPolicy, (a: EvictionCandidate, b: EvictionCandidate) => number> = {
+  oldest: (a, b) => time(a.createdAt) - time(b.createdAt),
+  // 从未发送过的表情按转存时间计算
+  leastRecent: (a, b) => time(a.lastSentAt || a.createdAt) - time(b.lastSentAt || b.createdAt),
+  leastFrequent: (a, b) => (a.sendCount || 0) - (b.sendCount || 0) || time(a.createdAt) - time(b.createdAt),
+  largest: (a, b) => b.size - a.size || time(a.createdAt) - time(b.createdAt),
+}
+
+/**
+ * 按策略排序，越靠前越先被移除
+ */
+export function evictionOrder<T extends EvictionCandidate>(records: T[], policy: EvictionPolicy): T[] {
+  return [...records].sort(comparators[policy])
+}
+
+/**
+ * 计算单个相册为新增一个表情需要移除的记录（limit 为 0 表示不限制）
+ */
+export function planAlbumEviction<T extends EvictionCandidate>(
+  records: T[],
+  policy: EvictionPolicy,
+  incomingSize: number,
+  maxCount: number,
+  maxBytes: number,
+): T[] {
+  if (maxBytes && incomingSize > maxBytes) {
+    throw new EvictionError('tooLarge', `表情大小超过相册空间上限（${formatBytes(maxBytes)}）`)
+  }
+
+  let count = records.length
+  let bytes = records.reduce((sum, record) => sum + record.size, 0)
+  const isFull = () => (maxCount && count + 1 > maxCount) || (maxBytes && bytes + incomingSize > maxBytes)
+  const evicted: T[] = []
+  for (const record of evictionOrder(records.filter(record => !record.pinned), policy)) {
+    if (!isFull()) break
+    evicted.push(record)
+    count--
+    bytes -= record.size
+  }
+  if (isFull()) {
+    throw new EvictionError('full', '相册已满，且剩余表情均已置顶，请先取消置顶或删除表情')
+  }
+  return evicted
+}
+
+/**
+ * 计算为满足全局空间上限需要移除的记录
+ *
+ * 相同内容的文件只保存一份，只有引用同一文件的记录全部移除后才会释放空间
+ */
+export function planGlobalEviction<T extends EvictionCandidate>(
+  records: T[],
+  policy: EvictionPolicy,
+  usage: number,
+  incomingSize: number,
+  maxBytes: number,
+): T[] {
+  if (!maxBytes || usage + incomingSize <= maxBytes) return []
+  if (incomingSize > maxBytes) {
+    throw new EvictionError('tooLarge', `表情大小超过存储空间上限（${formatBytes(maxBytes)}）`)
+  }
+
+  const refs = new Map<string, number>()
+  for (const record of records) {
+    refs.set(record.md5, (refs.get(record.md5) || 0) + 1)
+  }
+
+  const evicted: T[] = []
+  for (const record of evictionOrder(records.filter(record => !record.pinned), policy)) {
+    if (usage + incomingSize <= maxBytes) break
+    evicted.push(record)
+    const remaining = refs.get(record.md5)! - 1
+    refs.set(record.md5, remaining)
+    if (remaining === 0) usage -= record.size
+  }
+  if (usage + incomingSize > maxBytes) {
+    throw new EvictionError('full', '存储空间已满，剩余表情均已置顶或与其他表情共用文件，无法腾出空间')
+  }
+  return evicted
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)}MB`
+  return `${(bytes / 1024).toFixed(1)}KB`
+}
@@ -0,0 +1,276 @@
+/** 根据文件内容识别出的格式信息 */
+export interface ImageInfo {
+  mime: string
+  ext: string
+  width: number
+  height: number
+  /** 帧数，静态图为 1，无法确定时为 0 */
+  frameCount: number
+  animated: boolean
+}
+
+function info(mime: string, ext: string, width: number, height: number, frameCount = 1): ImageInfo {
+  return { mime, ext, width, height, frameCount, animated: frameCount !== 1 }
+}
+
+/**
+ * PNG：IHDR 中的尺寸，存在 acTL 块时为 APNG
+ */
+function sniffPng(buffer: Buffer): ImageInfo {
+  const width = buffer.readUInt32BE(16)
+  const height = buffer.readUInt32BE(20)
+  let offset = 8
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+    if (type === 'acTL' && offset + 12 <= buffer.length) {
+      return info('image/png', 'png', width, height, buffer.readUInt32BE(offset + 8))
+    }
+    if (type === 'IDAT' || type === 'IEND') break
+    offset += length + 12
+  }
+  return info('image/png', 'png', width, height)
+}
+
+/**
+ * JPEG：在 SOF 段中读取尺寸
+ */
+function sniffJpeg(buffer: Buffer): ImageInfo {
+  let offset = 2
+  while (offset + 9 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++
+      continue
+    }
+    const marker = buffer[offset + 1]
+    // 填充字节和没有长度的标记
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += marker === 0xff ? 1 : 2
+      continue
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return info('image/jpeg', 'jpg', buffer.readUInt16BE(offset + 7), buffer.readUInt16BE(offset + 5))
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2)
+  }
+  return info('image/jpeg', 'jpg', 0, 0)
+}
+
+/**
+ * GIF：逻辑屏幕尺寸，逐块统计图像数量
+ */
+function sniffGif(buffer: Buffer): ImageInfo {
+  const width = buffer.readUInt16LE(6)
+  const height = buffer.readUInt16LE(8)
+  const skipColorTable = (offset: number, flags: number) => flags & 0x80 ? offset + 3 * (1 << ((flags & 0x07) + 1)) : offset
+  const skipSubBlocks = (offset: number) => {
+    while (offset < buffer.length && buffer[offset] !== 0) offset += buffer[offset] + 1
+    return offset + 1
+  }
+
+  let frames = 0
+  let offset = skipColorTable(13, buffer[10])
+  while (offset < buffer.length) {
+    const block = buffer[offset]
+    if (block === 0x2c) {
+      frames++
+      offset = skipColorTable(offset + 10, buffer[offset + 9])
+      offset = skipSubBlocks(offset + 1)
+    } else if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2)
+    } else {
+      break
+    }
+  }
+  return info('image/gif', 'gif', width, height, Math.max(frames, 1))
+}
+
+/**
+ * WebP：按首个块区分有损、无损和扩展格式，扩展格式统计 ANMF 帧
+ */
+function sniffWebP(buffer: Buffer): ImageInfo {
+  const chunk = buffer.toString('ascii', 12, 16)
+  if (chunk === 'VP8 ') {
+    return info('image/webp', 'webp', buffer.readUInt16LE(26) & 0x3fff, buffer.readUInt16LE(28) & 0x3fff)
+  }
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21)
+    return info('image/webp', 'webp', (bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1)
+  }
+  if (chunk !== 'VP8X') {
+    throw new Error('WebP 文件已损坏')
+  }
+
+  const width = buffer.readUIntLE(24, 3) + 1
+  const height = buffer.readUIntLE(27, 3) + 1
+  if (!(buffer[20] & 0b00000010)) {
+    return info('image/webp', 'webp', width, height)
+  }
+  let frames = 0
+  let offset = 12
+  while (offset + 8 <= buffer.length) {
+    if (buffer.toString('ascii', offset, offset + 4) === 'ANMF') frames++
+    const size = buffer.readUInt32LE(offset + 4)
+    offset += 8 + size + (size & 1)
+  }
+  return info('image/webp', 'webp', width, height, Math.max(frames, 1))
+}
+
+/**
+ * 在 ISO BMFF 文件中查找指定类型的盒子，返回其内容的起始位置
+ */
+function findBox(buffer: Buffer, type: string): number {
+  const index = buffer.indexOf(type, 4, 'ascii')
+  return index < 0 ? -1 : index + 4
+}
+
+/** BMP 信息头的长度：BITMAPCOREHEADER、BITMAPINFOHEADER、V4、V5 */
+const BMP_HEADER_SIZES = [12, 40, 108, 124]
+
+/**
+ * BMP：文件头中的文件大小须与实际一致，信息头长度须为已知版本，否则只是以 BM 开头的其他文件
+ */
+function sniffBmp(buffer: Buffer): ImageInfo | undefined {
+  if (buffer.length < 26 || buffer.readUInt32LE(2) !== buffer.length) return
+  const headerSize = buffer.readUInt32LE(14)
+  if (!BMP_HEADER_SIZES.includes(headerSize)) return
+  // BITMAPCOREHEADER 的尺寸为 16 位
+  if (headerSize === 12) {
+    return info('image/bmp', 'bmp', buffer.readUInt16LE(18), buffer.readUInt16LE(20))
+  }
+  return info('image/bmp', 'bmp', buffer.readInt32LE(18), Math.abs(buffer.readInt32LE(22)))
+}
+
+/**
+ * AVIF：尺寸取自 ispe，图像序列（avis）的帧数取自 stsz
+ */
+function sniffAvif(buffer: Buffer, brand: string): ImageInfo {
+  const ispe = findBox(buffer, 'ispe')
+  const [width, height] = ispe > 0 && ispe + 12 <= buffer.length
+    ? [buffer.readUInt32BE(ispe + 4), buffer.readUInt32BE(ispe + 8)]
+    : [0, 0]
+  if (brand !== 'avis') {
+    return info('image/avif', 'avif', width, height)
+  }
+  const stsz = findBox(buffer, 'stsz')
+  const frames = stsz > 0 && stsz + 12 <= buffer.length ? buffer.readUInt32BE(stsz + 8) : 0
+  return { ...info('image/avif', 'avif', width, height, frames), animated: true }
+}
+
+/**
+ * 读取 EBML 变长整数，返回值和占用的字节数
+ */
+function readVint(buffer: Buffer, offset: number, keepMarker = false): [number, number] {
+  const first = buffer[offset]
+  let length = 1
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++
+  if (length > 8 || offset + length > buffer.length) return [-1, 1]
+  let value = keepMarker ? first : first & (0xff >> length)
+  let unknown = value === (0xff >> length)
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i]
+    unknown &&= buffer[offset + i] === 0xff
+  }
+  // 长度未知的元素（直播流中的 Segment 等）视为延续到文件末尾
+  return [unknown && !keepMarker ? Infinity : value, length]
+}
+
+/**
+ * 遍历 EBML 元素，对每个元素调用 visit
+ */
+function walkEbml(buffer: Buffer, start: number, end: number, visit: (id: number, offset: number, end: number) => void) {
+  let offset = start
+  while (offset < end) {
+    const [id, idLength] = readVint(buffer, offset, true)
+    const [size, sizeLength] = readVint(buffer, offset + idLength)
+    if (id < 0 || size < 0) return
+    const dataStart = offset + idLength + sizeLength
+    const dataEnd = Math.min(dataStart + size, end)
+    visit(id, dataStart, dataEnd)
+    offset = dataEnd
+  }
+}
+
+const EBML = {
+  header: 0x1a45dfa3,
+  docType: 0x4282,
+  segment: 0x18538067,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+}
+
+/**
+ * WebM / Matroska：DocType 区分容器，尺寸取自视频轨道
+ */
+function sniffEbml(buffer: Buffer): ImageInfo {
+  let docType = ''
+  let width = 0
+  let height = 0
+  const readUInt = (start: number, end: number) => end - start > 0 && end - start <= 6 ? buffer.readUIntBE(start, end - start) : 0
+  walkEbml(buffer, 0, buffer.length, (id, start, end) => {
+    if (id === EBML.header) {
+      walkEbml(buffer, start, end, (id, start, end) => {
+        if (id === EBML.docType) docType = buffer.toString('ascii', start, end).replace(/\0+$/, '')
+      })
+    }
+    if (id !== EBML.segment) return
+    walkEbml(buffer, start, end, (id, start, end) => {
+      if (id !== EBML.tracks) return
+      walkEbml(buffer, start, end, (id, start, end) => {
+        if (id !== EBML.trackEntry || width) return
+        walkEbml(buffer, start, end, (id, start, end) => {
+          if (id !== EBML.video) return
+          walkEbml(buffer, start, end, (id, start, end) => {
+            if (id === EBML.pixelWidth) width = readUInt(start, end)
+            if (id === EBML.pixelHeight) height = readUInt(start, end)
+          })
+        })
+      })
+    })
+  })
+  if (docType !== 'webm') {
+    throw new Error('不支持的文件格式：MKV 视频')
+  }
+  return { ...info('video/webm', 'webm', width, height, 0), animated: true }
+}
+
+/**
+ * 根据文件内容识别图片格式并读取尺寸和帧数，不是可保存的表情时抛出错误
+ *
+ * 视频格式中只接受 WebM（Telegram 视频贴纸）
+ */
+export function sniffImage(buffer: Buffer): ImageInfo {
+  if (buffer.length < 12) {
+    throw new Error('文件内容为空或过小，不是有效的图片')
+  }
+
+  const hex = buffer.toString('hex', 0, 8)
+  const ascii = buffer.toString('ascii', 0, 12)
+
+  if (hex === '89504e470d0a1a0a' && buffer.length >= 24) return sniffPng(buffer)
+  if (hex.startsWith('ffd8ff')) return sniffJpeg(buffer)
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) return sniffGif(buffer)
+  if (ascii.startsWith('RIFF')) {
+    const form = ascii.slice(8, 12)
+    if (form === 'WEBP' && buffer.length >= 30) return sniffWebP(buffer)
+    throw new Error(form === 'AVI ' ? `不支持的文件格式：AVI 视频` : '不支持的文件格式：不是 WebP 图片')
+  }
+  const bmp = ascii.startsWith('BM') && sniffBmp(buffer)
+  if (bmp) return bmp
+  if (ascii.slice(4, 8) === 'ftyp') {
+    const brand = ascii.slice(8, 12)
+    if (brand === 'avif' || brand === 'avis') return sniffAvif(buffer, brand)
+    throw new Error(`不支持的文件格式：${brand.startsWith('qt') ? 'MOV' : 'MP4'} 视频`)
+  }
+  if (hex.startsWith('1a45dfa3')) return sniffEbml(buffer)
+
+  // 链接失效时常返回网页或 JSON 错误信息
+  const text = buffer.toString('utf8', 0, 256).replace(/^﻿/, '').trimStart()
+  if (/^<(!doctype|html|\?xml|head|body)/i.test(text) || /^[{[]/.test(text)) {
+    throw new Error('下载到的是网页或文本而不是图片，链接可能已失效')
+  }
+  throw new Error('无法识别的文件格式，不是支持的图片')
+}
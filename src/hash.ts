@@ -0,0 +1,81 @@
+import { DecodedImage } from './codec'
+
+/** 感知哈希的位数 */
+export const HASH_BITS = 64
+
+/**
+ * 转为灰度（透明像素按白色背景合成）
+ */
+function toGrayscale(image: DecodedImage): Float64Array {
+  const src = image.frames[0].data
+  const gray = new Float64Array(image.width * image.height)
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = src[i * 4 + 3] / 255
+    const luma = 0.299 * src[i * 4] + 0.587 * src[i * 4 + 1] + 0.114 * src[i * 4 + 2]
+    gray[i] = luma * alpha + 255 * (1 - alpha)
+  }
+  return gray
+}
+
+/**
+ * 区域平均缩小，比插值缩放更不容易受噪点和重新压缩影响
+ */
+function downsample(gray: Float64Array, width: number, height: number, targetW: number, targetH: number): Float64Array {
+  const out = new Float64Array(targetW * targetH)
+  for (let ty = 0; ty < targetH; ty++) {
+    const y0 = Math.floor(ty * height / targetH)
+    const y1 = Math.max(Math.ceil((ty + 1) * height / targetH), y0 + 1)
+    for (let tx = 0; tx < targetW; tx++) {
+      const x0 = Math.floor(tx * width / targetW)
+      const x1 = Math.max(Math.ceil((tx + 1) * width / targetW), x0 + 1)
+      let sum = 0
+      let count = 0
+      for (let y = y0; y < Math.min(y1, height); y++) {
+        for (let x = x0; x < Math.min(x1, width); x++) {
+          sum += gray[y * width + x]
+          count++
+        }
+      }
+      out[ty * targetW + tx] = count ? sum / count : 0
+    }
+  }
+  return out
+}
+
+/**
+ * 计算第一帧的 dHash（64 位，16 位十六进制字符串）
+ */
+export function dHash(image: DecodedImage): string {
+  const small = downsample(toGrayscale(image), image.width, image.height, 9, 8)
+  let hex = ''
+  for (let y = 0; y < 8; y++) {
+    let byte = 0
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (small[y * 9 + x] > small[y * 9 + x + 1] ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+/**
+ * 两个哈希之间的汉明距离
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * 根据汉明距离换算的相似度（0-100）
+ */
+export function similarity(distance: number): number {
+  return Math.round((1 - distance / HASH_BITS) * 100)
+}
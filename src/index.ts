@@ -1,11 +1,37 @@
 import { Context, Schema, h, Logger, Session } from 'koishi'
-import { resolve } from 'path'
+import { relative, resolve } from 'path'
 import { createHash } from 'crypto'
-import { createWriteStream, existsSync, mkdirSync, unlinkSync } from 'fs'
-import { readFile, stat } from 'fs/promises'
+import { existsSync, mkdirSync, readdirSync } from 'fs'
+import { mkdir, readFile, stat, unlink, writeFile } from 'fs/promises'
+import { BlobStore } from './blob'
+import { EvictionPolicy, formatBytes } from './eviction'
+import { parsePeriod, periodNames, SendSource, StatsPeriod, UsageStats } from './stats'
+import { ArchiveFile, packAlbum, unpackAlbum } from './archive'
+import { applySelection, parseSelection, parseTags } from './selection'
+import { checkRegex, CompiledTrigger, compileTrigger } from './trigger'
+import { AuditAction, auditActionNames, AuditLog, parseTimeRange } from './audit'
+import { sniffImage } from './format'
+import { Downloader } from './download'
+import { TempStore } from './temp'
+import { checkFiles, hasIssues, IntegrityReport } from './integrity'
+import { computePhash, isPersonalAlbum, personalAlbumId, StickerAlbumService } from './service'
+import { registerApi } from './api'
+import { Album, DuplicateMatch, RecycleReason, StickerRecord, StickerTrigger, TriggerMode } from './types'
+import { oneBotAdapter, OutgoingFile } from './platforms'
+import { DecodedImage, decodeImage, encodeImage, formatMimes, isAnimatedWebP, isOutputFormat, OutputFormat } from './codec'
+import { hammingDistance, similarity } from './hash'
+import { createThumbnail, renderContactSheet, SheetCell } from './sheet'
+import { changeSpeed, cropSquare, flip, parseSize, resize, reverse, rotate, sliceFrames } from './transform'
+
+export * from './types'
+export * from './service'
+export * from './platforms'
 
 export const name = 'sticker-convert'
-export const inject = ['database']
+export const inject = {
+  required: ['database'],
+  optional: ['server'],
+}
 export const usage = `
 ## QQ 表情转存插件
 
@@ -18,6 +44,34 @@ export const usage = `
 4. 使用 "表情相册发送 <编号>" 重新发送指定表情
 5. 使用 "表情相册删除 <编号>" 删除指定表情（需要权限）
 6. 使用 "表情相册清空" 清空整个相册（需要权限）
+7. 使用 "表情转存 -n <名称> -t <标签>" 转存时设置名称和标签
+8. 使用 "表情相册命名 <编号> <名称>" / "表情相册标签 <编号> <标签>" 修改名称或添加标签
+9. 使用 "表情相册搜索 <关键词>" 按名称、标签或上传者搜索表情
+10. 使用 "表情相册绑定 <编号> <触发词>" 绑定触发词，群友发送触发词时自动回复该表情（需要权限）
+11. 使用 "表情相册置顶 <编号>" 置顶表情，置顶的表情排在最前且不会因容量不足被移除（需要权限，-r 取消置顶）
+
+发送、删除、标签、置顶、复制等命令中的编号支持批量选择：1,4,7（列表）、3-10（范围）、动图、静态、全部、@上传者，可用逗号组合，批量删除前会列出表情并要求确认
+
+### 相似表情去重
+转存时会计算表情的感知哈希，与相册中已有表情足够相似时视为重复，不再保存。
+使用 "表情相册查重" 扫描相册中的相似表情，加 "-m" 合并（需要权限）。
+回复任意图片发送 "表情找相似"，可在转存前查看相册中是否已有相似表情。
+
+### 表情编辑
+回复图片或指定相册编号，使用 "表情编辑" 进行缩放、翻转、旋转、裁剪，动图还支持倒放、变速和截取帧，加 "-a" 可将结果保存到相册。
+
+### 格式转换
+"表情转换" 和 "表情转存" 支持 "-f png|gif|webp|jpg" 指定输出格式，例如将动态 WebP 转为 GIF、将 GIF 转为首帧 PNG。
+未指定时按配置中各来源格式的默认输出格式处理，转换完全在本地完成。
+
+表情编号在转存时分配并固定不变，删除其他表情后也不会变化；设置了名称的表情也可以直接用名称代替编号。
+
+### 个人相册
+个人相册跟随用户，在所有群组和私聊中通用（私聊中的相册命令默认操作个人相册）。
+1. 使用 "表情转存 -p" 转存到个人相册
+2. 使用 "我的表情" / "我的表情发送 <编号>" / "我的表情删除 <编号>" 管理个人相册
+3. 使用 "表情相册收藏 <编号>" 将群相册中的表情复制到个人相册
+4. 使用 "我的表情分享 <编号>" 将个人相册中的表情复制到当前群相册
 
 ### 权限管理
 删除和清空操作的权限等级可在配置中自定义：
@@ -40,26 +94,107 @@ export interface Config {
   albumEnabledGroups: string[]
   /** 相册最大容量（每个群组） */
   albumMaxSize: number
+  /** 每个相册最多可置顶的表情数量 */
+  maxPinned: number
+  /** 相册已满时的移除策略 */
+  evictionPolicy: EvictionPolicy
+  /** 每个相册的空间上限（MB，0 为不限制） */
+  albumQuotaMB: number
+  /** 所有相册合计的磁盘空间上限（MB，0 为不限制） */
+  globalQuotaMB: number
   /** 查看相册时是否同时发送所有表情图片 */
   albumShowImages: boolean
+  /** 是否将一页表情合成为一张网格图发送 */
+  albumGridImage: boolean
+  /** 网格图中缩略图的尺寸 */
+  thumbnailSize: number
+  /** 感知哈希汉明距离小于该值时视为重复（0 为关闭） */
+  duplicateThreshold: number
   /** 允许删除表情的最低权限等级 */
   deletePermissionLevel: number
+  /** 是否启用个人相册 */
+  enablePersonalAlbum: boolean
+  /** 个人相册最大容量（每个用户） */
+  personalAlbumMaxSize: number
+  /** 回收站保留天数（0 为不使用回收站，删除后无法恢复） */
+  recycleRetentionDays: number
+  /** 操作日志保留天数（0 为永久保留） */
+  auditRetentionDays: number
+  /** 发送记录保留天数（0 为永久保留） */
+  statsRetentionDays: number
+  /** 定期检查表情文件完整性的间隔（小时，0 为不检查） */
+  integrityCheckInterval: number
+  /** 定期检查时自动修复发现的问题 */
+  integrityAutoFix: boolean
+  /** 是否启用触发词自动回复 */
+  enableTrigger: boolean
+  /** 触发词自动回复冷却时间（秒，每个群组） */
+  triggerCooldown: number
   /** 静态图片发送方式 */
   staticImageMode: 'buffer' | 'file'
   /** GIF 发送方式 */
   gifMode: 'buffer' | 'file'
   /** 文件传输方式（与OneBot客户端之间） */
   fileTransferMode: 'buffer' | 'file'
+  /** 临时文件在发送完成后保留的时间（秒） */
+  tempFileGracePeriod: number
+  /** 各来源格式的默认输出格式 */
+  defaultFormats: Record<SourceType, FormatOption>
+  /** 单个表情的下载大小上限（MB） */
+  maxDownloadMB: number
+  /** 下载超时时间（秒） */
+  downloadTimeout: number
+  /** 下载失败时的重试次数 */
+  downloadRetries: number
+  /** 同时进行的下载数 */
+  downloadConcurrency: number
+  /** 每个频道同时进行的下载数 */
+  channelDownloadConcurrency: number
+  /** 允许下载本机和内网地址 */
+  allowPrivateNetwork: boolean
+  /** 是否启用 HTTP 管理接口 */
+  enableApi: boolean
+  /** 接口路由前缀 */
+  apiPath: string
+  /** 接口访问令牌 */
+  apiToken: string
   /** 是否启用调试日志 */
   debug: boolean
 }
 
+/** 可识别的来源图片格式 */
+export type SourceType = 'png' | 'jpg' | 'gif' | 'webp' | 'webpAnimated'
+
+export type FormatOption = 'keep' | OutputFormat
+
+function formatOption(fallback: FormatOption) {
+  return Schema.union([
+    Schema.const('keep').description('保持原格式'),
+    Schema.const('png').description('PNG'),
+    Schema.const('gif').description('GIF'),
+    Schema.const('webp').description('WebP'),
+    Schema.const('jpg').description('JPG'),
+  ]).default(fallback)
+}
+
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     enableAlbum: Schema.boolean().default(true).description('是否启用群相册功能'),
     albumEnabledGroups: Schema.array(Schema.string()).role('table').description('启用相册功能的群组列表（为空表示全部群组启用）'),
     albumMaxSize: Schema.number().min(5).max(100).default(20).description('相册最大容量（每个群组）（最大100）'),
+    maxPinned: Schema.number().min(0).max(50).default(5).description('每个相册最多可置顶的表情数量（置顶的表情不会因容量不足被移除）'),
+    evictionPolicy: Schema.union([
+      Schema.const('oldest').description('最早转存的'),
+      Schema.const('leastRecent').description('最久未发送的'),
+      Schema.const('leastFrequent').description('发送次数最少的'),
+      Schema.const('largest').description('文件最大的'),
+    ]).default('oldest').description('相册已满时优先移除的表情'),
+    albumQuotaMB: Schema.number().min(0).default(0).description('每个相册（含个人相册）的空间上限（MB，0 为不限制）'),
+    globalQuotaMB: Schema.number().min(0).default(0).description('所有相册合计的磁盘空间上限（MB，0 为不限制）'),
     albumShowImages: Schema.boolean().default(true).description('查看相册时是否同时发送所有表情图片'),
+    albumGridImage: Schema.boolean().default(true).description('将一页表情合成为一张网格图发送（关闭则逐张发送）'),
+    thumbnailSize: Schema.number().min(160).max(320).default(160).description('网格图中缩略图的尺寸（像素）'),
+    duplicateThreshold: Schema.number().min(0).max(32).default(5).description('相似表情判定阈值：感知哈希的汉明距离小于该值时视为重复（0 为仅按 MD5 去重）'),
     deletePermissionLevel: Schema.union([
       Schema.const(1).description('1级：普通用户'),
       Schema.const(2).description('2级：信任用户'),
@@ -68,6 +203,33 @@ export const Config: Schema<Config> = Schema.intersect([
       Schema.const(5).description('5级：机器人管理员')
     ]).default(3).description('允许删除表情的最低权限等级'),
   }).description('相册设置'),
+
+  Schema.object({
+    enablePersonalAlbum: Schema.boolean().default(true).description('是否启用个人相册功能'),
+    personalAlbumMaxSize: Schema.number().min(5).max(200).default(50).description('个人相册最大容量（每个用户）（最大200）'),
+  }).description('个人相册设置'),
+
+  Schema.object({
+    recycleRetentionDays: Schema.number().min(0).max(90).default(7).description('删除、清空和容量清理移除的表情在回收站中保留的天数（0 为不使用回收站）'),
+  }).description('回收站设置'),
+
+  Schema.object({
+    auditRetentionDays: Schema.number().min(0).max(365).default(90).description('相册操作日志保留天数（0 为永久保留）'),
+  }).description('操作日志设置'),
+
+  Schema.object({
+    statsRetentionDays: Schema.number().min(0).max(3650).default(90).description('表情发送记录保留天数（0 为永久保留），少于 30 天时 "本月" 排行不完整'),
+  }).description('统计设置'),
+
+  Schema.object({
+    integrityCheckInterval: Schema.number().min(0).max(168).default(0).description('定期检查表情文件与记录是否一致的间隔（小时，0 为不检查）'),
+    integrityAutoFix: Schema.boolean().default(false).description('定期检查时自动修复发现的问题（删除损坏的记录和多余的文件）'),
+  }).description('完整性检查设置'),
+
+  Schema.object({
+    enableTrigger: Schema.boolean().default(true).description('是否启用触发词自动回复'),
+    triggerCooldown: Schema.number().min(0).default(10).description('触发词自动回复冷却时间（秒，每个群组）'),
+  }).description('触发词设置'),
   
   Schema.object({
     staticImageMode: Schema.union([
@@ -82,51 +244,97 @@ export const Config: Schema<Config> = Schema.intersect([
       Schema.const('buffer').description('buffer模式：文件数据传给OneBot（推荐）'),
       Schema.const('file').description('file模式：文件路径传给OneBot（需同环境）')
     ]).default('buffer').description('与OneBot客户端的文件传输方式'),
+    tempFileGracePeriod: Schema.number().min(0).max(600).default(10).description('buffer模式的临时文件在发送完成后保留的时间（秒），OneBot客户端读取较慢时可调大'),
   }).description('发送设置'),
   
+  Schema.object({
+    defaultFormats: Schema.object({
+      png: formatOption('keep').description('PNG'),
+      jpg: formatOption('keep').description('JPG'),
+      gif: formatOption('keep').description('GIF'),
+      webp: formatOption('png').description('静态 WebP'),
+      webpAnimated: formatOption('gif').description('动态 WebP'),
+    }).description('各来源格式默认转换为的格式（可用 -f 临时指定）'),
+  }).description('格式转换设置'),
+
+  Schema.object({
+    maxDownloadMB: Schema.number().min(1).max(100).default(10).description('单个表情的下载大小上限（MB），超出时中断下载'),
+    downloadTimeout: Schema.number().min(5).max(300).default(30).description('下载超时时间（秒）'),
+    downloadRetries: Schema.number().min(0).max(5).default(2).description('网络错误、超时或服务器错误时的重试次数'),
+    downloadConcurrency: Schema.number().min(1).max(32).default(4).description('同时进行的下载数'),
+    channelDownloadConcurrency: Schema.number().min(1).max(8).default(2).description('每个频道同时进行的下载数'),
+    allowPrivateNetwork: Schema.boolean().default(false).description('允许下载本机和内网地址的文件（仅在图片服务部署在内网时开启）'),
+  }).description('下载设置'),
+
+  Schema.object({
+    enableApi: Schema.boolean().default(false).description('是否启用 HTTP 管理接口（需要 server 服务）'),
+    apiPath: Schema.string().default('/sticker-album').description('接口路由前缀'),
+    apiToken: Schema.string().role('secret').default('').description('接口访问令牌，未设置时不启用接口'),
+  }).description('HTTP 接口设置'),
+
   Schema.object({
     debug: Schema.boolean().default(false).description('是否启用调试日志（用于排查问题）'),
   }).description('调试设置'),
 ])
 
-// 数据库模型
-declare module 'koishi' {
-  interface Tables {
-    sticker_archive: StickerRecord
-  }
+/** 完整性检查涉及的记录，来自回收站时带有回收站编号 */
+export interface CheckedRecord extends StickerRecord {
+  recycleId?: number
+}
+
+export interface AuditQueryOptions {
+  /** 操作者 ID 或 @ 元素 */
+  user?: string
+  action?: string
+  /** 时间范围，如 7d */
+  time?: string
+  limit?: number
 }
 
-export interface StickerRecord {
-  id: number
-  channelId: string
-  md5: string
-  ext: string
-  mime: string
-  size: number
-  isGif: boolean
-  fileName: string
-  filePath: string
-  uploaderId: string
-  sourceMessageId: string
-  createdAt: Date
+export interface ConvertOptions {
+  /** 输出格式 */
+  format?: string
+}
+
+export interface EditOptions extends ConvertOptions {
+  /** 缩放尺寸：200、200x100 或 50% */
+  size?: string
+  /** 水平翻转 */
+  mirror?: boolean
+  /** 垂直翻转 */
+  flip?: boolean
+  /** 顺时针旋转角度 */
+  rotate?: number
+  /** 居中裁剪为正方形 */
+  square?: boolean
+  /** 倒放（动图） */
+  reverse?: boolean
+  /** 播放速度倍率（动图） */
+  speed?: number
+  /** 截取帧范围（动图） */
+  frames?: string
+  /** 将结果保存到相册 */
+  save?: boolean
+}
+
+export interface SaveOptions extends ConvertOptions {
+  name?: string
+  tags?: string
+  /** 转存到个人相册 */
+  personal?: boolean
 }
 
 const logger = new Logger('sticker-convert')
 
 export function apply(ctx: Context, config: Config) {
-  // 扩展数据库表
-  ctx.model.extend('sticker_archive', {
+  // 扩展数据库表（表情和回收站由相册服务扩展）
+  ctx.model.extend('sticker_trigger', {
     id: 'unsigned',
     channelId: 'string',
-    md5: 'string',
-    ext: 'string',
-    mime: 'string',
-    size: 'unsigned',
-    isGif: 'boolean',
-    fileName: 'string',
-    filePath: 'string',
-    uploaderId: 'string',
-    sourceMessageId: 'string',
+    stickerId: 'unsigned',
+    phrase: 'string',
+    mode: 'string',
+    creatorId: 'string',
     createdAt: 'timestamp',
   }, {
     primary: 'id',
@@ -139,28 +347,165 @@ export function apply(ctx: Context, config: Config) {
     mkdirSync(storageDir, { recursive: true })
   }
 
+  // 缩略图缓存目录
+  const thumbnailDir = resolve(storageDir, 'thumbs')
+
+  // 表情文件按内容哈希存放，相同内容只保存一份，删除文件时同时删除缩略图
+  const blobs = new BlobStore(ctx, resolve(storageDir, 'blobs'), thumbnailDir)
+
+  // 发送文件用的临时文件，与相册文件分开存放，启动和停用时清空
+  const temp = new TempStore(ctx, resolve(storageDir, 'temp'), config.tempFileGracePeriod * 1000)
+
+  // 旧版本直接写在存储目录中的临时文件
+  for (const name of readdirSync(storageDir)) {
+    if (/^temp_\d+_/.test(name)) {
+      unlink(resolve(storageDir, name)).catch(() => {})
+    }
+  }
+
+  const downloader = new Downloader(ctx, {
+    maxSize: config.maxDownloadMB * 1024 * 1024,
+    timeout: config.downloadTimeout * 1000,
+    retries: config.downloadRetries,
+    concurrency: config.downloadConcurrency,
+    channelConcurrency: config.channelDownloadConcurrency,
+    allowPrivate: config.allowPrivateNetwork,
+  })
+
+  // 表情发送统计
+  const stats = new UsageStats(ctx)
+
+  // 相册操作日志
+  const audit = new AuditLog(ctx)
+
+  // 相册的增删查，同时作为 stickerAlbum 服务提供给其他插件
+  const albums = new StickerAlbumService(ctx, config, blobs, stats, audit)
+
+  // 表情离开相册后触发词随之删除
+  ctx.on('sticker-album/deleted', record => triggerCache.delete(record.channelId))
+  ctx.on('sticker-album/evicted', record => triggerCache.delete(record.channelId))
+  ctx.on('sticker-album/trigger-bound', trigger => triggerCache.delete(trigger.channelId))
+  ctx.on('sticker-album/trigger-unbound', trigger => triggerCache.delete(trigger.channelId))
+
+  async function pruneLogs() {
+    if (config.auditRetentionDays) {
+      const pruned = await audit.prune(config.auditRetentionDays)
+      if (pruned) debugLog('清理操作日志', { pruned })
+    }
+    if (config.statsRetentionDays) {
+      const pruned = await stats.prune(config.statsRetentionDays)
+      if (pruned) debugLog('清理发送记录', { pruned })
+    }
+  }
+
+  ctx.on('ready', () => pruneLogs())
+  ctx.setInterval(() => {
+    pruneLogs().catch(error => logger.warn('清理日志失败:', error))
+  }, 24 * 60 * 60 * 1000)
+
   /**
-   * 下载图片到本地
+   * 将旧版本按日期命名的文件迁移到哈希存储，并重新统计引用计数
    */
-  async function downloadImage(url: string): Promise<{ buffer: Buffer, mime: string, size: number }> {
-    try {
-      const response = await ctx.http.get(url, { responseType: 'arraybuffer', timeout: 30000 })
-      const buffer = Buffer.from(response)
-      
-      // 简单的 MIME 类型检测
-      let mime = 'image/unknown'
-      if (buffer.length >= 4) {
-        const header = buffer.toString('hex', 0, 4)
-        if (header.startsWith('89504e47')) mime = 'image/png'
-        else if (header.startsWith('ffd8ff')) mime = 'image/jpeg'
-        else if (header.startsWith('47494638')) mime = 'image/gif'
-        else if (buffer.toString('ascii', 0, 4) === 'RIFF') mime = 'image/webp'
-      }
-      
-      return { buffer, mime, size: buffer.length }
-    } catch (error) {
-      throw new Error(`下载失败: ${error.message}`)
+  async function migrateBlobs() {
+    const records = await ctx.database.get('sticker_archive', {})
+    let migrated = 0
+    for (const record of records) {
+      if (blobs.isManaged(record.filePath)) continue
+      try {
+        const filePath = await blobs.adopt(record.filePath, record.md5, record.ext)
+        await ctx.database.set('sticker_archive', { id: record.id }, { filePath })
+        record.filePath = filePath
+        migrated++
+      } catch (error) {
+        logger.warn(`迁移表情文件失败: ${record.filePath}`, error)
+      }
+    }
+    // 回收站中的表情仍然引用文件
+    const recycled = await ctx.database.get('sticker_recycle', {})
+    const removed = await blobs.recount([...records, ...recycled.map(item => item.record)])
+    if (migrated) logger.info(`已将 ${migrated} 个表情文件迁移到哈希存储`)
+    if (removed) logger.info(`已清理 ${removed} 个未被引用的表情文件`)
+  }
+
+  /**
+   * 为旧版本转存、尚未分配编号的表情按转存时间补充编号
+   */
+  async function backfillSeq() {
+    const pending = await ctx.database
+      .select('sticker_archive')
+      .where({ seq: { $or: [{ $eq: 0 }, { $eq: null }] } })
+      .orderBy('createdAt', 'asc')
+      .execute()
+    if (pending.length === 0) return
+
+    let assigned = 0
+    for (const record of pending) {
+      try {
+        await ctx.database.set('sticker_archive', { id: record.id }, { seq: await albums.nextSeq(record.channelId) })
+        assigned++
+      } catch (error) {
+        logger.warn(`分配表情编号失败: ${record.id}`, error)
+      }
+    }
+    logger.info(`已为 ${assigned} 个表情分配编号`)
+  }
+
+  /**
+   * 预先为旧记录计算感知哈希，供去重和相似查找使用
+   */
+  async function backfillPhash() {
+    const records = await ctx.database.get('sticker_archive', { phash: { $or: [{ $eq: '' }, { $eq: null }] } })
+    if (records.length === 0) return
+    await albums.ensurePhash(records)
+    logger.info(`已为 ${records.filter(record => record.phash).length} 个表情计算感知哈希`)
+  }
+
+  /**
+   * 为旧记录补充尺寸和帧数
+   */
+  async function backfillDimensions() {
+    const records = await ctx.database.get('sticker_archive', { width: { $or: [{ $eq: 0 }, { $eq: null }] } })
+    let updated = 0
+    for (const record of records) {
+      if (!existsSync(record.filePath)) continue
+      try {
+        const { width, height, frameCount } = sniffImage(await readFile(record.filePath))
+        if (!width) continue
+        await ctx.database.set('sticker_archive', { id: record.id }, { width, height, frameCount })
+        updated++
+      } catch (error) {
+        logger.warn(`无法识别表情文件格式: ${record.filePath}`, error.message)
+      }
+    }
+    if (updated) logger.info(`已为 ${updated} 个表情补充尺寸信息`)
+  }
+
+  // 启动维护任务依次执行：迁移会移动文件，之后的任务需要读取迁移后的路径
+  ctx.on('ready', async () => {
+    const tasks: [string, () => Promise<void>][] = [
+      ['迁移表情文件', migrateBlobs],
+      ['补充表情编号', backfillSeq],
+      ['计算感知哈希', backfillPhash],
+      ['补充尺寸信息', backfillDimensions],
+    ]
+    for (const [name, task] of tasks) {
+      try {
+        await task()
+      } catch (error) {
+        logger.warn(`${name}失败:`, error)
+      }
     }
+  })
+
+  /**
+   * 下载图片到本地
+   */
+  async function downloadImage(url: string, channelId: string): Promise<{ buffer: Buffer, mime: string, size: number }> {
+    const buffer = await downloader.download(url, channelId)
+
+    // 按文件内容识别格式，不是图片时直接报错
+    const { mime } = sniffImage(buffer)
+    return { buffer, mime, size: buffer.length }
   }
 
   /**
@@ -171,32 +516,65 @@ export function apply(ctx: Context, config: Config) {
       'image/png': 'png',
       'image/jpeg': 'jpg',
       'image/gif': 'gif',
-      'image/webp': 'webp'
+      'image/webp': 'webp',
+      'image/avif': 'avif',
+      'image/bmp': 'bmp',
+      'video/webm': 'webm'
     }
-    return mimeMap[mime] || 'jpg'
+    if (!mimeMap[mime]) {
+      throw new Error(`不支持保存的文件类型: ${mime}`)
+    }
+    return mimeMap[mime]
   }
 
   /**
-   * 保存文件到本地
+   * 获取来源图片的格式类型
    */
-  async function saveFile(buffer: Buffer, md5: string, ext: string): Promise<string> {
-    const fileName = `${new Date().toISOString().split('T')[0]}-${md5}.${ext}`
-    const filePath = resolve(storageDir, fileName)
-    
-    return new Promise((resolve, reject) => {
-      const stream = createWriteStream(filePath)
-      stream.write(buffer)
-      stream.end()
-      stream.on('finish', () => resolve(filePath))
-      stream.on('error', reject)
-    })
+  function getSourceType(buffer: Buffer, mime: string): SourceType | undefined {
+    switch (mime) {
+      case 'image/png': return 'png'
+      case 'image/jpeg': return 'jpg'
+      case 'image/gif': return 'gif'
+      case 'image/webp': return isAnimatedWebP(buffer) ? 'webpAnimated' : 'webp'
+    }
+  }
+
+  /**
+   * 检查指定的输出格式，不支持时返回原因
+   */
+  function checkFormat(format?: string): string | undefined {
+    if (!format || isOutputFormat(format)) return
+    return `不支持的输出格式 "${format}"，可选: ${Object.keys(formatMimes).join('/')}`
   }
 
   /**
-   * 检查是否为 OneBot 平台
+   * 按指定格式（未指定时按配置的默认格式）转换图片
    */
-  function isOneBotPlatform(session: Session): boolean {
-    return session.platform === 'onebot'
+  async function transcode(buffer: Buffer, mime: string, format?: string): Promise<{ buffer: Buffer, mime: string }> {
+    const formatError = checkFormat(format)
+    if (formatError) {
+      throw new Error(formatError)
+    }
+
+    const sourceType = getSourceType(buffer, mime)
+    const target = (format || (sourceType && config.defaultFormats?.[sourceType]) || 'keep') as FormatOption
+    if (target === 'keep' || formatMimes[target] === mime) {
+      return { buffer, mime }
+    }
+    if (!sourceType) {
+      throw new Error(`无法识别的图片格式，不能转换为 ${target}`)
+    }
+
+    // PNG 和 JPG 只保留第一帧，无需解码其余帧
+    const image = await decodeImage(buffer, mime, { maxFrames: target === 'png' || target === 'jpg' ? 1 : undefined })
+    const output = await encodeImage(image, target)
+    debugLog('格式转换完成', {
+      from: sourceType,
+      to: target,
+      frames: image.frames.length,
+      size: `${buffer.length} -> ${output.length}`
+    })
+    return { buffer: output, mime: formatMimes[target] }
   }
 
   /**
@@ -217,42 +595,54 @@ export function apply(ctx: Context, config: Config) {
   }
 
   /**
-   * 检查并清理相册容量
+   * 解析当前会话对应的相册（私聊默认使用个人相册）
    */
-  async function checkAndCleanAlbum(channelId: string): Promise<void> {
-    const records = await ctx.database
-      .select('sticker_archive')
-      .where({ channelId })
-      .orderBy('createdAt', 'desc')
-      .execute()
+  function resolveAlbum(session: Session, personal: boolean = false): Album {
+    if (personal || session.isDirect) {
+      return { id: personalAlbumId(session.platform, session.userId), personal: true }
+    }
+    return { id: session.channelId, personal: false }
+  }
 
-    if (records.length >= config.albumMaxSize) {
-      debugLog('相册容量检查', { 
-        current: records.length, 
-        max: config.albumMaxSize,
-        needClean: records.length - config.albumMaxSize + 1
-      })
+  /**
+   * 检查相册是否启用
+   */
+  function isAlbumEnabled(album: Album): boolean {
+    return album.personal ? config.enablePersonalAlbum : isAlbumEnabledForGroup(album.id)
+  }
 
-      // 删除最旧的表情
-      const toDelete = records.slice(config.albumMaxSize - 1)
-      for (const record of toDelete) {
-        try {
-          // 删除本地文件
-          if (existsSync(record.filePath)) {
-            unlinkSync(record.filePath)
-            debugLog('删除旧文件', { filePath: record.filePath })
-          }
-          // 删除数据库记录
-          await ctx.database.remove('sticker_archive', { id: record.id })
-        } catch (error) {
-          logger.warn('清理旧表情失败:', error)
-        }
-      }
-      
-      debugLog('相册清理完成', { deleted: toDelete.length })
+  function albumDisabledMessage(album: Album): string {
+    return album.personal ? '❌ 个人相册功能未启用' : '❌ 此群组未启用相册功能'
+  }
+
+  /**
+   * 相册对应的命令前缀，用于提示信息
+   */
+  function albumCommand(album: Album): string {
+    return album.personal ? '我的表情' : '表情相册'
+  }
+
+  /**
+   * 描述为腾出空间被移除的表情
+   */
+  function evictedMessage(album: Album, evicted: StickerRecord[]): string {
+    const local = evicted.filter(record => record.channelId === album.id)
+    const others = evicted.length - local.length
+    const lines = local.map(record => `${record.seq}. ${record.name || record.fileName}`)
+    if (others) {
+      lines.push(`另有 ${others} 个其他相册的表情（超出总空间上限）`)
     }
+    return `🗑️ 空间不足，已移除 ${evicted.length} 个表情：\n${lines.join('\n')}`
   }
 
+  ctx.on('ready', async () => {
+    const purged = await albums.purgeRecycleBin()
+    if (purged) logger.info(`已从回收站彻底删除 ${purged} 个过期表情`)
+  })
+  ctx.setInterval(() => {
+    albums.purgeRecycleBin().catch(error => logger.warn('清理回收站失败:', error))
+  }, 60 * 60 * 1000)
+
   /**
    * 调试日志函数
    */
@@ -275,8 +665,11 @@ export function apply(ctx: Context, config: Config) {
       return 1
     }
 
-    const roles = session.author.roles || []
-    
+    return getRoleLevel(session.author.roles || [])
+  }
+
+  // 角色在 OneBot 中为字符串，类型声明中为 GuildRole，这里只按值比较
+  function getRoleLevel(roles: readonly unknown[]): number {
     // 检查各种权限等级
     if (roles.includes('owner')) return 4 // 群主
     if (roles.includes('admin')) return 3 // 管理员
@@ -285,6 +678,20 @@ export function apply(ctx: Context, config: Config) {
     return 1 // 普通用户
   }
 
+  /**
+   * 查询用户在其他群组中的权限等级，不在该群中时返回 0
+   */
+  async function getMemberPermission(session: Session, guildId: string): Promise<number> {
+    try {
+      const member = await session.bot.getGuildMember(guildId, session.userId)
+      if (!member) return 0
+      return getRoleLevel(member.roles || [])
+    } catch (error) {
+      debugLog('查询群成员失败', { guildId, userId: session.userId, error: error.message })
+      return 0
+    }
+  }
+
   /**
    * 检查用户是否有删除权限
    */
@@ -293,44 +700,98 @@ export function apply(ctx: Context, config: Config) {
     return userLevel >= config.deletePermissionLevel
   }
 
+  /**
+   * 记录被拒绝的操作并返回提示
+   */
+  async function permissionDenied(session: Session, albumId: string, action: string, where: string = ''): Promise<string> {
+    const levelNames = ['', '普通用户', '信任用户', '管理员', '群主', '机器人管理员']
+    await audit.write({ channelId: albumId, action: 'denied', operatorId: session.userId, detail: action })
+    return `❌ 权限不足，${where}${action}需要 ${levelNames[config.deletePermissionLevel]} 或以上权限`
+  }
+
+  /**
+   * 按编号或名称查找表情
+   */
+  function findRecord(records: StickerRecord[], key: string): StickerRecord | undefined {
+    const value = key.trim()
+    if (/^\d+$/.test(value)) {
+      return records.find(record => record.seq === +value)
+    }
+    return records.find(record => record.name === value)
+  }
+
+  /**
+   * 按选择语法批量查找表情：1,4,7、3-10、动图、静态、全部、@上传者
+   */
+  function selectRecords(records: StickerRecord[], key: string): StickerRecord[] {
+    return applySelection(records, parseSelection(key))
+  }
+
+  /** 一次最多发送的表情数量，避免刷屏 */
+  const MAX_BATCH_SEND = 10
+
+  /**
+   * 批量操作前列出受影响的表情并请求确认，单个表情无需确认
+   *
+   * 按实际选中的表情数量判断：名称可能对应多个表情（旧版本允许重名）
+   */
+  async function confirmBatch(session: Session, records: StickerRecord[], action: string): Promise<boolean> {
+    if (records.length <= 1) return true
+
+    const preview = records.slice(0, 20).map(formatRecordLine)
+    if (records.length > preview.length) {
+      preview.push(`...等共 ${records.length} 个`)
+    }
+    await session.send(`⚠️ 确定要${action}以下 ${records.length} 个表情吗？\n${preview.join('\n')}\n回复 "确认" 继续，其他内容取消`)
+    const confirm = await session.prompt(30000)
+    return (confirm as string)?.trim() === '确认'
+  }
+
+  function recordNotFoundMessage(key: string): string {
+    return `❌ 找不到编号或名称为 "${key.trim()}" 的表情`
+  }
+
+  /**
+   * 格式化单条表情信息
+   */
+  function formatRecordLine(record: StickerRecord): string {
+    const dimensions = record.width ? `${record.width}×${record.height}, ` : ''
+    let line = `${record.seq}. ${record.pinned ? '📌' : ''}${record.isGif ? '🎞️' : '🖼️'} ${record.name || record.fileName} (${dimensions}${(record.size / 1024).toFixed(1)}KB)`
+    if (record.tags?.length) {
+      line += ` #${record.tags.join(' #')}`
+    }
+    return line
+  }
+
+  /**
+   * OneBot 发送文件：以本地路径交给 OneBot 客户端，缓冲区模式先写入临时文件
+   */
+  async function sendOneBotFile(session: Session, { buffer, fileName, filePath, forceBuffer }: OutgoingFile): Promise<void> {
+    if (config.fileTransferMode === 'buffer' || forceBuffer) {
+      // 缓冲区模式：写入临时文件后发送路径，保持原始文件名，发送完成后删除
+      await temp.use(buffer, fileName, path => session.send(h.file(`file://${path}`, { filename: fileName })))
+    } else {
+      // 文件模式：发送文件路径，指定原始文件名
+      if (!filePath) {
+        throw new Error('文件模式需要已保存的文件路径')
+      }
+      await session.send(h.file(`file://${filePath}`, { filename: fileName }))
+    }
+  }
+
+  // OneBot 发送文件时需要用到配置，在服务的内置适配上补充
+  albums.platforms.register({ ...oneBotAdapter, sendFile: sendOneBotFile })
+
   /**
    * 发送文件的统一函数
    */
   async function sendFileWithName(session: Session, buffer: Buffer, fileName: string, filePath?: string, forceBuffer: boolean = false): Promise<void> {
     try {
-      if (config.fileTransferMode === 'buffer' || forceBuffer) {
-        // 缓冲区模式：先保存临时文件，再发送路径，但保持原始文件名
-        const tempFileName = `temp_${Date.now()}_${fileName}`
-        const tempPath = resolve(storageDir, tempFileName)
-        await new Promise<void>((resolve, reject) => {
-          const stream = createWriteStream(tempPath)
-          stream.write(buffer)
-          stream.end()
-          stream.on('finish', () => resolve())
-          stream.on('error', reject)
-        })
-        
-        // 发送文件，但指定原始文件名
-        await session.send(h.file(`file://${tempPath}`, { filename: fileName }))
-        
-        // 延迟删除临时文件
-        setTimeout(() => {
-          try {
-            if (existsSync(tempPath)) {
-              unlinkSync(tempPath)
-            }
-          } catch (error) {
-            logger.warn('删除临时文件失败:', error)
-          }
-        }, 5000) // 5秒后删除
-        
+      const adapter = albums.platforms.resolve(session.platform)
+      if (adapter.sendFile) {
+        await adapter.sendFile(session, { buffer, fileName, filePath, forceBuffer })
       } else {
-        // 文件模式：发送文件路径，指定原始文件名
-        if (!filePath) {
-          throw new Error('文件模式需要已保存的文件路径')
-        }
-        const originalFileName = filePath.split(/[/\\]/).pop()! // 获取原始文件名
-        await session.send(h.file(`file://${filePath}`, { filename: originalFileName }))
+        await session.send(h.file(buffer, 'application/octet-stream', { filename: fileName }))
       }
     } catch (error) {
       debugLog('文件发送失败', { error: error.message })
@@ -338,19 +799,93 @@ export function apply(ctx: Context, config: Config) {
     }
   }
 
+  /**
+   * 图片或视频贴纸（如 Telegram 的 webm）对应的消息元素
+   */
+  function mediaElement(buffer: Buffer, mime: string): h {
+    return mime.startsWith('video/') ? h.video(buffer, mime) : h.image(buffer, mime)
+  }
+
+  /**
+   * 提取被回复消息中的表情
+   */
+  function extractStickers(session: Session) {
+    return albums.platforms.resolve(session.platform).extract(session.quote?.elements || [])
+  }
+
+  /**
+   * 按配置的发送方式发送转换结果，返回结果描述
+   */
+  async function deliverConverted(session: Session, buffer: Buffer, mime: string, fileName: string, filePath?: string): Promise<string> {
+    // 没有已保存的文件时强制使用 buffer 模式
+    const forceBuffer = !filePath
+
+    if (mime === 'image/gif') {
+      // GIF 发送方式
+      if (config.gifMode === 'file') {
+        try {
+          debugLog('尝试以文件方式发送GIF')
+          await sendFileWithName(session, buffer, fileName, filePath, forceBuffer)
+          debugLog('GIF文件发送成功')
+          return `🎞️ GIF 已转为文件: ${fileName}`
+        } catch (error) {
+          debugLog('GIF文件发送失败，尝试作为图片发送', { error: error.message })
+          // 如果文件发送失败，降级为图片发送
+          await session.send(h.image(buffer, 'image/gif'))
+          debugLog('GIF作为图片发送成功')
+          return `🎞️ GIF 已转换（作为图片发送）`
+        }
+      } else {
+        // 直接作为图片发送
+        debugLog('以图片方式发送GIF')
+        await session.send(h.image(buffer, 'image/gif'))
+        debugLog('GIF图片发送成功')
+        return `🎞️ GIF 已转换为图片`
+      }
+    } else {
+      // 静态图片发送方式
+      if (config.staticImageMode === 'file') {
+        try {
+          debugLog('尝试以文件方式发送静态图片')
+          await sendFileWithName(session, buffer, fileName, filePath, forceBuffer)
+          debugLog('静态图片文件发送成功')
+          return `📁 图片已转为文件: ${fileName}`
+        } catch (error) {
+          debugLog('静态图片文件发送失败，尝试作为图片发送', { error: error.message })
+          // 如果文件发送失败，降级为图片发送
+          await session.send(mediaElement(buffer, mime))
+          debugLog('静态图片作为图片发送成功')
+          return `🖼️ 图片已转换`
+        }
+      } else {
+        // 直接作为图片发送
+        debugLog('以图片方式发送静态图片')
+        await session.send(mediaElement(buffer, mime))
+        debugLog('静态图片发送成功')
+        return `🖼️ 图片已转换`
+      }
+    }
+  }
+
+  function duplicateMessage(match: DuplicateMatch, albumName: string = '相册'): string {
+    return match.distance === 0
+      ? `📁 此表情已存在${albumName}中（编号 ${match.record.seq}）`
+      : `📁 ${albumName}中已有相似表情（编号 ${match.record.seq}，相似度 ${similarity(match.distance)}%）`
+  }
+
   /**
    * 转换表情核心逻辑（不保存到相册）
    */
-  async function convertEmojiOnly(session: Session) {
+  async function convertEmojiOnly(session: Session, options: ConvertOptions = {}) {
     debugLog('开始转换表情（仅转换）', { 
       platform: session.platform, 
       channelId: session.channelId,
       userId: session.userId 
     })
 
-    if (!isOneBotPlatform(session)) {
-      debugLog('平台不支持', { platform: session.platform })
-      return '此插件仅支持 QQ 平台（OneBot 适配器）'
+    const formatError = checkFormat(options.format)
+    if (formatError) {
+      return `❌ ${formatError}`
     }
 
     const quote = session.quote
@@ -366,23 +901,11 @@ export function apply(ctx: Context, config: Config) {
       allElements: quote.elements
     })
 
-    // 尝试查找不同类型的图片元素
-    const images = h.select(quote.elements, 'img')
-    const imageElements = h.select(quote.elements, 'image') 
-    const mfaceElements = h.select(quote.elements, 'mface') // QQ 表情包
-    const allImageLike = [...images, ...imageElements, ...mfaceElements]
-    
-    debugLog('提取图片元素', { 
-      imgCount: images.length, 
-      imageCount: imageElements.length,
-      mfaceCount: mfaceElements.length,
-      totalImageLike: allImageLike.length,
-      imgElements: images.map(el => ({ type: el.type, attrs: el.attrs })),
-      imageElements: imageElements.map(el => ({ type: el.type, attrs: el.attrs })),
-      mfaceElements: mfaceElements.map(el => ({ type: el.type, attrs: el.attrs }))
-    })
-    
-    if (allImageLike.length === 0) {
+    // 按平台提取表情
+    const sources = extractStickers(session)
+    debugLog('提取表情', { platform: session.platform, sources })
+
+    if (sources.length === 0) {
       debugLog('没有找到图片元素，显示所有元素详情', {
         allElementsDetail: quote.elements?.map(el => ({ 
           type: el.type, 
@@ -396,30 +919,14 @@ export function apply(ctx: Context, config: Config) {
     const results: string[] = []
     let successCount = 0
 
-    for (const img of allImageLike) {
+    for (const { type, url } of sources) {
       try {
-        debugLog('处理图片', { type: img.type, attrs: img.attrs })
-        
-        // 根据不同类型获取 URL
-        let url: string
-        if (img.type === 'mface') {
-          // QQ 表情包 URL 在 attrs.url
-          url = img.attrs.url
-        } else {
-          // 普通图片 URL 在 attrs.src 或 attrs.url
-          url = img.attrs.src || img.attrs.url
-        }
-        
-        if (!url) {
-          debugLog('图片URL无效', { type: img.type, attrs: img.attrs })
-          results.push('⚠️ 发现无效图片链接')
-          continue
-        }
-
-        debugLog('开始下载图片', { type: img.type, url })
+        debugLog('开始下载图片', { type, url })
 
         // 下载图片
-        const { buffer, mime, size } = await downloadImage(url)
+        const downloaded = await downloadImage(url, session.channelId)
+        const { buffer, mime } = await transcode(downloaded.buffer, downloaded.mime, options.format)
+        const size = buffer.length
         const md5 = createHash('md5').update(buffer).digest('hex')
         const ext = getExtFromMime(mime)
         const isGif = mime === 'image/gif'
@@ -436,57 +943,7 @@ export function apply(ctx: Context, config: Config) {
         const fileName = `temp-${md5.substring(0, 8)}.${ext}`
 
         // 根据类型和配置发送（仅转换，不保存）
-        if (isGif) {
-          // GIF 发送方式
-          if (config.gifMode === 'file') {
-            try {
-              debugLog('尝试以文件方式发送GIF')
-              
-              // 仅转换模式强制使用 buffer 模式（因为没有保存文件）
-              await sendFileWithName(session, buffer, fileName, undefined, true)
-              
-              debugLog('GIF文件发送成功')
-              results.push(`🎞️ GIF 已转为文件: ${fileName}`)
-            } catch (error) {
-              debugLog('GIF文件发送失败，尝试作为图片发送', { error: error.message })
-              // 如果文件发送失败，降级为图片发送
-              await session.send(h.image(buffer, 'image/gif'))
-              debugLog('GIF作为图片发送成功')
-              results.push(`🎞️ GIF 已转换（作为图片发送）`)
-            }
-          } else {
-            // 直接作为图片发送
-            debugLog('以图片方式发送GIF')
-            await session.send(h.image(buffer, 'image/gif'))
-            debugLog('GIF图片发送成功')
-            results.push(`🎞️ GIF 已转换为图片`)
-          }
-        } else {
-          // 静态图片发送方式
-          if (config.staticImageMode === 'file') {
-            try {
-              debugLog('尝试以文件方式发送静态图片')
-              
-              // 仅转换模式强制使用 buffer 模式（因为没有保存文件）
-              await sendFileWithName(session, buffer, fileName, undefined, true)
-              
-              debugLog('静态图片文件发送成功')
-              results.push(`📁 图片已转为文件: ${fileName}`)
-            } catch (error) {
-              debugLog('静态图片文件发送失败，尝试作为图片发送', { error: error.message })
-              // 如果文件发送失败，降级为图片发送
-              await session.send(h.image(buffer, mime))
-              debugLog('静态图片作为图片发送成功')
-              results.push(`🖼️ 图片已转换`)
-            }
-          } else {
-            // 直接作为图片发送
-            debugLog('以图片方式发送静态图片')
-            await session.send(h.image(buffer, mime))
-            debugLog('静态图片发送成功')
-            results.push(`🖼️ 图片已转换`)
-          }
-        }
+        results.push(await deliverConverted(session, buffer, mime, fileName))
 
         debugLog('仅转换模式，不保存到相册')
         successCount++
@@ -507,22 +964,32 @@ export function apply(ctx: Context, config: Config) {
   /**
    * 转存表情核心逻辑
    */
-  async function convertEmoji(session: Session) {
+  async function convertEmoji(session: Session, options: SaveOptions = {}) {
     debugLog('开始转存表情', { 
       platform: session.platform, 
       channelId: session.channelId,
       userId: session.userId 
     })
 
-    if (!isOneBotPlatform(session)) {
-      debugLog('平台不支持', { platform: session.platform })
-      return '此插件仅支持 QQ 平台（OneBot 适配器）'
+    // 检查是否启用相册功能
+    const album = resolveAlbum(session, options.personal)
+    if (!isAlbumEnabled(album)) {
+      debugLog('当前相册未启用', { album: album.id })
+      return album.personal
+        ? '❌ 个人相册功能未启用，无法使用转存功能。请使用 "表情转换" 命令进行临时转换。'
+        : '❌ 此群组未启用相册功能，无法使用转存功能。请使用 "表情转换" 命令进行临时转换。'
+    }
+
+    const formatError = checkFormat(options.format)
+    if (formatError) {
+      return `❌ ${formatError}`
     }
 
-    // 检查是否启用相册功能
-    if (!isAlbumEnabledForGroup(session.channelId)) {
-      debugLog('当前群组未启用相册功能')
-      return '❌ 此群组未启用相册功能，无法使用转存功能。请使用 "表情转换" 命令进行临时转换。'
+    if (options.name) {
+      const nameError = await albums.checkName(album.id, options.name)
+      if (nameError) {
+        return `❌ ${nameError}`
+      }
     }
 
     const quote = session.quote
@@ -538,23 +1005,11 @@ export function apply(ctx: Context, config: Config) {
       allElements: quote.elements
     })
 
-    // 尝试查找不同类型的图片元素
-    const images = h.select(quote.elements, 'img')
-    const imageElements = h.select(quote.elements, 'image') 
-    const mfaceElements = h.select(quote.elements, 'mface') // QQ 表情包
-    const allImageLike = [...images, ...imageElements, ...mfaceElements]
-    
-    debugLog('提取图片元素', { 
-      imgCount: images.length, 
-      imageCount: imageElements.length,
-      mfaceCount: mfaceElements.length,
-      totalImageLike: allImageLike.length,
-      imgElements: images.map(el => ({ type: el.type, attrs: el.attrs })),
-      imageElements: imageElements.map(el => ({ type: el.type, attrs: el.attrs })),
-      mfaceElements: mfaceElements.map(el => ({ type: el.type, attrs: el.attrs }))
-    })
-    
-    if (allImageLike.length === 0) {
+    // 按平台提取表情
+    const sources = extractStickers(session)
+    debugLog('提取表情', { platform: session.platform, sources })
+
+    if (sources.length === 0) {
       debugLog('没有找到图片元素，显示所有元素详情', {
         allElementsDetail: quote.elements?.map(el => ({ 
           type: el.type, 
@@ -564,130 +1019,43 @@ export function apply(ctx: Context, config: Config) {
       })
       return '被回复的消息中没有找到图片表情'
     }
+    if (options.name && sources.length > 1) {
+      return '❌ 消息中有多个表情，名称不能重复，请逐个转存后再命名'
+    }
 
     const results: string[] = []
     let successCount = 0
 
-    for (const img of allImageLike) {
+    for (const { type, url } of sources) {
       try {
-        debugLog('处理图片', { type: img.type, attrs: img.attrs })
-        
-        // 根据不同类型获取 URL
-        let url: string
-        if (img.type === 'mface') {
-          // QQ 表情包 URL 在 attrs.url
-          url = img.attrs.url
-        } else {
-          // 普通图片 URL 在 attrs.src 或 attrs.url
-          url = img.attrs.src || img.attrs.url
-        }
-        
-        if (!url) {
-          debugLog('图片URL无效', { type: img.type, attrs: img.attrs })
-          results.push('⚠️ 发现无效图片链接')
-          continue
-        }
-
-        debugLog('开始下载图片', { type: img.type, url })
+        debugLog('开始下载图片', { type, url })
 
         // 下载图片
-        const { buffer, mime, size } = await downloadImage(url)
-        const md5 = createHash('md5').update(buffer).digest('hex')
-        const ext = getExtFromMime(mime)
-        const isGif = mime === 'image/gif'
-
-        debugLog('图片下载完成', { 
-          size, 
-          mime, 
-          ext, 
-          isGif, 
-          md5: md5.substring(0, 8) + '...'
-        })
+        const downloaded = await downloadImage(url, session.channelId)
+        const { buffer, mime } = await transcode(downloaded.buffer, downloaded.mime, options.format)
+        debugLog('图片下载完成', { size: buffer.length, mime })
 
-        // 检查是否已存在
-        const existing = await ctx.database.get('sticker_archive', {
-          channelId: session.channelId,
-          md5
+        // 检查重复后保存文件并记录到相册
+        const result = await albums.add(album.id, {
+          buffer,
+          uploaderId: session.userId,
+          sourceMessageId: quote.messageId || '',
+          name: options.name,
+          tags: parseTags(options.tags),
         })
-
-        if (existing.length > 0) {
-          debugLog('表情已存在', { existingId: existing[0].id })
-          results.push(`📁 此表情已存在相册中（编号 ${existing[0].id}）`)
+        if ('duplicate' in result) {
+          results.push(duplicateMessage(result.duplicate))
           continue
         }
-
-        // 检查相册容量
-        await checkAndCleanAlbum(session.channelId)
-
-        // 保存文件到本地
-        const filePath = await saveFile(buffer, md5, ext)
-        const fileName = filePath.split(/[/\\]/).pop()!
-        debugLog('文件保存完成', { filePath, fileName })
+        const { record, evicted } = result
+        debugLog('相册保存完成', { id: record.id, seq: record.seq, filePath: record.filePath })
 
         // 根据类型和配置发送
-        if (isGif) {
-          // GIF 发送方式
-          if (config.gifMode === 'file') {
-            try {
-              debugLog('尝试以文件方式发送GIF')
-              await sendFileWithName(session, buffer, fileName, filePath)
-              debugLog('GIF文件发送成功')
-              results.push(`🎞️ GIF 已转为文件: ${fileName}`)
-            } catch (error) {
-              debugLog('GIF文件发送失败，尝试作为图片发送', { error: error.message })
-              // 如果文件发送失败，降级为图片发送
-              await session.send(h.image(buffer, 'image/gif'))
-              debugLog('GIF作为图片发送成功')
-              results.push(`🎞️ GIF 已转换（作为图片发送）`)
-            }
-          } else {
-            // 直接作为图片发送
-            debugLog('以图片方式发送GIF')
-            await session.send(h.image(buffer, 'image/gif'))
-            debugLog('GIF图片发送成功')
-            results.push(`🎞️ GIF 已转换为图片`)
-          }
-        } else {
-          // 静态图片发送方式
-          if (config.staticImageMode === 'file') {
-            try {
-              debugLog('尝试以文件方式发送静态图片')
-              await sendFileWithName(session, buffer, fileName, filePath)
-              debugLog('静态图片文件发送成功')
-              results.push(`📁 图片已转为文件: ${fileName}`)
-            } catch (error) {
-              debugLog('静态图片文件发送失败，尝试作为图片发送', { error: error.message })
-              // 如果文件发送失败，降级为图片发送
-              await session.send(h.image(buffer, mime))
-              debugLog('静态图片作为图片发送成功')
-              results.push(`🖼️ 图片已转换`)
-            }
-          } else {
-            // 直接作为图片发送
-            debugLog('以图片方式发送静态图片')
-            await session.send(h.image(buffer, mime))
-            debugLog('静态图片发送成功')
-            results.push(`🖼️ 图片已转换`)
-          }
+        results.push(await deliverConverted(session, buffer, mime, record.fileName, record.filePath))
+        if (evicted.length) {
+          results.push(evictedMessage(album, evicted))
         }
 
-        // 记录到相册
-        debugLog('保存到相册')
-        await ctx.database.create('sticker_archive', {
-          channelId: session.channelId,
-          md5,
-          ext,
-          mime,
-          size,
-          isGif,
-          fileName,
-          filePath,
-          uploaderId: session.userId,
-          sourceMessageId: quote.messageId || '',
-          createdAt: new Date()
-        })
-        debugLog('相册保存完成')
-
         successCount++
       } catch (error) {
         debugLog('转存失败', { error: error.message, stack: error.stack })
@@ -697,66 +1065,218 @@ export function apply(ctx: Context, config: Config) {
     }
 
     if (successCount > 0) {
-      results.unshift(`✅ 成功转存 ${successCount} 个表情`)
+      results.unshift(`✅ 成功转存 ${successCount} 个表情${album.personal ? '到个人相册' : ''}`)
     }
 
     return results.join('\n')
   }
 
+  /**
+   * 编辑表情（缩放、翻转、旋转、裁剪，动图支持倒放、变速、截取帧）
+   */
+  async function editEmoji(session: Session, key: string | undefined, options: EditOptions) {
+    const hasEdit = options.size || options.mirror || options.flip || options.rotate
+      || options.square || options.reverse || options.speed || options.frames
+    if (!hasEdit && !options.format) {
+      return '请至少指定一种编辑操作，使用 "help 表情编辑" 查看可用选项'
+    }
+
+    const formatError = checkFormat(options.format)
+    if (formatError) {
+      return `❌ ${formatError}`
+    }
+
+    try {
+      // 获取源图片：优先使用回复的图片，其次使用相册中的表情
+      let buffer: Buffer
+      let mime: string
+      if (session.quote) {
+        const [source] = extractStickers(session)
+        if (!source) {
+          return '被回复的消息中没有找到图片表情'
+        }
+        ({ buffer, mime } = await downloadImage(source.url, session.channelId))
+      } else if (key?.trim()) {
+        const album = resolveAlbum(session)
+        if (!isAlbumEnabled(album)) {
+          return albumDisabledMessage(album)
+        }
+        const record = await albums.get(album.id, key)
+        if (!record) {
+          return recordNotFoundMessage(key)
+        }
+        if (!existsSync(record.filePath)) {
+          return '❌ 文件不存在，可能已被删除，可请机器人管理员使用 "表情相册检查" 修复'
+        }
+        buffer = await readFile(record.filePath)
+        mime = record.mime
+      } else {
+        return '请回复包含表情的消息，或指定相册中的表情编号'
+      }
+
+      let image: DecodedImage = await decodeImage(buffer, mime)
+      const animated = image.frames.length > 1
+
+      if ((options.reverse || options.speed || options.frames) && !animated) {
+        return '❌ 倒放、变速和截取帧仅支持动图'
+      }
+
+      if (options.frames) image = sliceFrames(image, options.frames)
+      if (options.reverse) image = reverse(image)
+      if (options.speed) image = changeSpeed(image, options.speed)
+      if (options.square) image = cropSquare(image)
+      if (options.rotate) image = rotate(image, options.rotate)
+      if (options.mirror) image = flip(image, 'horizontal')
+      if (options.flip) image = flip(image, 'vertical')
+      if (options.size) {
+        const { width, height } = parseSize(options.size, image)
+        image = resize(image, width, height)
+      }
+
+      // 未指定格式时保持原格式，动图默认输出 GIF
+      const sourceFormat = (Object.keys(formatMimes) as OutputFormat[]).find(format => formatMimes[format] === mime)
+      const format = (options.format as OutputFormat)
+        || (animated && sourceFormat !== 'webp' ? 'gif' : sourceFormat || 'png')
+      const output = await encodeImage(image, format)
+      const outputMime = formatMimes[format]
+      debugLog('表情编辑完成', {
+        size: `${image.width}x${image.height}`,
+        frames: image.frames.length,
+        format,
+        bytes: output.length
+      })
+
+      if (!options.save) {
+        const md5 = createHash('md5').update(output).digest('hex')
+        return await deliverConverted(session, output, outputMime, `edit-${md5.substring(0, 8)}.${format}`)
+      }
+
+      const album = resolveAlbum(session)
+      if (!isAlbumEnabled(album)) {
+        return albumDisabledMessage(album)
+      }
+
+      // 编辑结果本身就与原图相似，这里只排除完全相同的内容
+      const added = await albums.add(album.id, {
+        buffer: output,
+        uploaderId: session.userId,
+        sourceMessageId: session.quote?.messageId,
+      }, { operatorId: session.userId, note: '编辑', exact: true })
+      if ('duplicate' in added) {
+        return duplicateMessage(added.duplicate)
+      }
+      const { record, evicted } = added
+      const result = await deliverConverted(session, output, outputMime, record.fileName, record.filePath)
+      const saved = `${result}\n💾 已保存到相册（编号 ${record.seq}）`
+      return evicted.length ? `${saved}\n${evictedMessage(album, evicted)}` : saved
+    } catch (error) {
+      debugLog('编辑失败', { error: error.message, stack: error.stack })
+      logger.error('编辑表情失败:', error)
+      return `❌ 编辑失败: ${error.message}`
+    }
+  }
+
+  function thumbnailPath(record: StickerRecord): string {
+    return resolve(thumbnailDir, `${record.md5}-${config.thumbnailSize}.png`)
+  }
+
+  /**
+   * 获取表情缩略图（按 md5 缓存在磁盘上）
+   */
+  async function getThumbnail(record: StickerRecord): Promise<DecodedImage> {
+    const cachePath = thumbnailPath(record)
+    if (existsSync(cachePath)) {
+      try {
+        return await decodeImage(await readFile(cachePath), 'image/png')
+      } catch (error) {
+        logger.warn(`缩略图缓存损坏，重新生成: ${cachePath}`)
+      }
+    }
+
+    const image = await decodeImage(await readFile(record.filePath), record.mime, { maxFrames: 1 })
+    const thumbnail = createThumbnail(image, config.thumbnailSize)
+    await mkdir(thumbnailDir, { recursive: true })
+    await writeFile(cachePath, await encodeImage(thumbnail, 'png'))
+    debugLog('生成缩略图', { md5: record.md5, cachePath })
+    return thumbnail
+  }
+
+  /**
+   * 将多个表情合成为一张带编号的网格图
+   */
+  async function renderRecordSheet(records: StickerRecord[], caption: (record: StickerRecord) => string = record => formatBytes(record.size)): Promise<Buffer> {
+    const cells: SheetCell[] = []
+    for (const record of records) {
+      try {
+        cells.push({
+          thumbnail: await getThumbnail(record),
+          label: `#${record.seq}`,
+          caption: caption(record),
+          badge: record.isGif ? 'GIF' : undefined,
+        })
+      } catch (error) {
+        logger.warn(`生成缩略图失败: ${record.filePath}`, error)
+      }
+    }
+    if (cells.length === 0) {
+      throw new Error('没有可用的缩略图')
+    }
+    const sheet = renderContactSheet(cells, { columns: 4, cellSize: config.thumbnailSize })
+    return await encodeImage(sheet, 'png')
+  }
+
   /**
    * 查看相册
    */
-  async function viewAlbum(session: Session, page: number = 1) {
-    if (!isAlbumEnabledForGroup(session.channelId)) {
-      return '❌ 此群组未启用相册功能'
+  async function viewAlbum(session: Session, album: Album, page: number = 1) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
     }
 
     const pageSize = 8
     const offset = (page - 1) * pageSize
 
-    const records = await ctx.database
-      .select('sticker_archive')
-      .where({ channelId: session.channelId })
-      .orderBy('createdAt', 'desc')
-      .limit(pageSize)
-      .offset(offset)
-      .execute()
+    const total = await albums.list(album.id)
+    const records = total.slice(offset, offset + pageSize)
 
     if (records.length === 0) {
       return page === 1 ? '相册为空，快去转存一些表情吧！' : '没有更多表情了'
     }
 
-    const total = await ctx.database
-      .select('sticker_archive')
-      .where({ channelId: session.channelId })
-      .execute()
-
     const totalPages = Math.ceil(total.length / pageSize)
+    const title = album.personal ? '👤 我的表情' : '📱 表情相册'
     
-    let result = `📱 表情相册 (第 ${page}/${totalPages} 页，共 ${total.length} 个)\n\n`
+    let result = `${title} (第 ${page}/${totalPages} 页，共 ${total.length} 个)\n\n`
 
     // 先发送文字信息
-    for (let i = 0; i < records.length; i++) {
-      const record = records[i]
-      const num = offset + i + 1
-      result += `${num}. ${record.isGif ? '🎞️' : '🖼️'} ${record.fileName} (${(record.size / 1024).toFixed(1)}KB)\n`
+    for (const record of records) {
+      result += formatRecordLine(record) + '\n'
     }
 
-    result += `\n💡 使用 "表情相册发送 <编号>" 来重新发送指定表情`
+    result += `\n💡 使用 "${albumCommand(album)}发送 <编号>" 来重新发送指定表情`
     if (totalPages > 1) {
-      result += `\n📄 使用 "表情相册 ${page + 1}" 查看下一页`
+      result += `\n📄 使用 "${albumCommand(album)} ${page + 1}" 查看下一页`
     }
 
     await session.send(result)
 
     // 根据配置决定是否发送图片
+    if (config.albumShowImages && config.albumGridImage) {
+      try {
+        await session.send(h.image(await renderRecordSheet(records), 'image/png'))
+        return ''
+      } catch (error) {
+        logger.warn('生成相册网格图失败，改为逐张发送:', error)
+      }
+    }
+
     if (config.albumShowImages) {
       for (const record of records) {
         try {
           if (existsSync(record.filePath)) {
             // 统一作为图片显示（包括GIF）
             const fileData = await readFile(record.filePath)
-            await session.send(h.image(fileData, record.mime))
+            await session.send(mediaElement(fileData, record.mime))
           }
         } catch (error) {
           logger.warn(`读取文件失败: ${record.filePath}`)
@@ -768,107 +1288,119 @@ export function apply(ctx: Context, config: Config) {
   }
 
   /**
-   * 发送指定编号的表情
+   * 发送指定编号的表情，支持批量选择
    */
-  async function sendEmoji(session: Session, index: number) {
-    if (!isAlbumEnabledForGroup(session.channelId)) {
-      return '❌ 此群组未启用相册功能'
+  async function sendEmoji(session: Session, album: Album, key: string) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
     }
 
-    const records = await ctx.database
-      .select('sticker_archive')
-      .where({ channelId: session.channelId })
-      .orderBy('createdAt', 'desc')
-      .execute()
+    const records = await albums.list(album.id)
 
-    if (index < 1 || index > records.length) {
-      return `❌ 编号无效，相册中共有 ${records.length} 个表情`
+    const selected = selectRecords(records, key)
+    if (selected.length === 0) {
+      return recordNotFoundMessage(key)
+    }
+    if (selected.length > MAX_BATCH_SEND) {
+      return `❌ 选中了 ${selected.length} 个表情，一次最多发送 ${MAX_BATCH_SEND} 个`
     }
 
-    const record = records[index - 1]
-    
+    const results: string[] = []
+    for (const record of selected) {
+      results.push(await deliverRecord(session, record))
+    }
+    return results.join('\n')
+  }
+
+  /**
+   * 按配置的发送方式发送相册中的表情
+   */
+  async function deliverRecord(session: Session, record: StickerRecord, source: SendSource = 'command'): Promise<string> {
     if (!existsSync(record.filePath)) {
-      return '❌ 文件不存在，可能已被删除'
+      return '❌ 文件不存在，可能已被删除，可请机器人管理员使用 "表情相册检查" 修复'
     }
 
     try {
-      const fileData = await readFile(record.filePath)
-
-      if (record.isGif) {
-        // GIF 按配置的方式发送
-        if (config.gifMode === 'file') {
-          try {
-            await sendFileWithName(session, fileData, record.fileName, record.filePath)
-            return `🎞️ 已发送 GIF 文件: ${record.fileName}`
-          } catch (error) {
-            // 如果文件发送失败，降级为图片发送
-            await session.send(h.image(fileData, 'image/gif'))
-            return `🎞️ 已发送 GIF（作为图片）: ${record.fileName}`
-          }
-        } else {
-          // 直接作为图片发送
+      const result = await sendRecordFile(session, record, await readFile(record.filePath))
+      await stats.record(record, session.channelId, session.userId, source)
+      return result
+    } catch (error) {
+      logger.error('发送表情失败:', error)
+      return `❌ 发送失败: ${error.message}`
+    }
+  }
+
+  /**
+   * 按配置的方式（图片或文件）发送表情
+   */
+  async function sendRecordFile(session: Session, record: StickerRecord, fileData: Buffer): Promise<string> {
+    if (record.isGif) {
+      // GIF 按配置的方式发送
+      if (config.gifMode === 'file') {
+        try {
+          await sendFileWithName(session, fileData, record.fileName, record.filePath)
+          return `🎞️ 已发送 GIF 文件: ${record.fileName}`
+        } catch (error) {
+          // 如果文件发送失败，降级为图片发送
           await session.send(h.image(fileData, 'image/gif'))
-          return `🎞️ 已发送 GIF 图片: ${record.fileName}`
+          return `🎞️ 已发送 GIF（作为图片）: ${record.fileName}`
         }
       } else {
-        // 静态图片按配置的方式发送
-        if (config.staticImageMode === 'file') {
-          try {
-            await sendFileWithName(session, fileData, record.fileName, record.filePath)
-            return `📁 已发送图片文件: ${record.fileName}`
-          } catch (error) {
-            // 如果文件发送失败，降级为图片发送
-            await session.send(h.image(fileData, record.mime))
-            return `🖼️ 已发送图片: ${record.fileName}`
-          }
-        } else {
-          // 直接作为图片发送
-          await session.send(h.image(fileData, record.mime))
+        // 直接作为图片发送
+        await session.send(h.image(fileData, 'image/gif'))
+        return `🎞️ 已发送 GIF 图片: ${record.fileName}`
+      }
+    } else {
+      // 静态图片按配置的方式发送
+      if (config.staticImageMode === 'file') {
+        try {
+          await sendFileWithName(session, fileData, record.fileName, record.filePath)
+          return `📁 已发送图片文件: ${record.fileName}`
+        } catch (error) {
+          // 如果文件发送失败，降级为图片发送
+          await session.send(mediaElement(fileData, record.mime))
           return `🖼️ 已发送图片: ${record.fileName}`
         }
+      } else {
+        // 直接作为图片发送
+        await session.send(mediaElement(fileData, record.mime))
+        return `🖼️ 已发送图片: ${record.fileName}`
       }
-    } catch (error) {
-      logger.error('发送表情失败:', error)
-      return `❌ 发送失败: ${error.message}`
     }
   }
 
   /**
-   * 删除表情（权限可配置）
+   * 删除表情（权限可配置），支持批量选择
    */
-  async function deleteEmoji(session: Session, index: number) {
-    if (!isAlbumEnabledForGroup(session.channelId)) {
-      return '❌ 此群组未启用相册功能'
+  async function deleteEmoji(session: Session, album: Album, key: string) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
     }
 
-    // 检查用户权限
-    if (!hasDeletePermission(session)) {
-      const levelNames = ['', '普通用户', '信任用户', '管理员', '群主', '机器人管理员']
-      return `❌ 权限不足，删除表情需要 ${levelNames[config.deletePermissionLevel]} 或以上权限`
+    // 检查用户权限（个人相册由本人管理）
+    if (!album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '删除表情')
     }
 
-    const records = await ctx.database
-      .select('sticker_archive')
-      .where({ channelId: session.channelId })
-      .orderBy('createdAt', 'desc')
-      .execute()
+    const records = await albums.list(album.id)
 
-    if (index < 1 || index > records.length) {
-      return `❌ 编号无效，相册中共有 ${records.length} 个表情`
+    const selected = selectRecords(records, key)
+    if (selected.length === 0) {
+      return recordNotFoundMessage(key)
     }
 
-    const record = records[index - 1]
+    if (!await confirmBatch(session, selected, '删除')) {
+      return '❌ 操作已取消'
+    }
 
     try {
-      // 删除文件
-      if (existsSync(record.filePath)) {
-        unlinkSync(record.filePath)
+      for (const record of selected) {
+        await albums.delete(record, 'delete', session.userId)
       }
 
-      // 删除数据库记录
-      await ctx.database.remove('sticker_archive', { id: record.id })
-
-      return `✅ 已删除表情: ${record.fileName}`
+      return selected.length === 1
+        ? `✅ 已删除表情: ${selected[0].fileName}`
+        : `✅ 已删除 ${selected.length} 个表情（编号 ${selected.map(record => record.seq).join(', ')}）`
     } catch (error) {
       logger.error('删除表情失败:', error)
       return `❌ 删除失败: ${error.message}`
@@ -876,84 +1408,1264 @@ export function apply(ctx: Context, config: Config) {
   }
 
   /**
-   * 清空相册（权限可配置）
+   * 置顶或取消置顶表情，支持批量选择
+   */
+  async function pinEmoji(session: Session, album: Album, key: string, unpin: boolean) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    // 个人相册由本人管理
+    if (!album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '置顶表情')
+    }
+
+    const records = await albums.list(album.id)
+
+    const selected = selectRecords(records, key)
+    if (selected.length === 0) {
+      return recordNotFoundMessage(key)
+    }
+
+    if (unpin) {
+      const targets = selected.filter(record => record.pinned)
+      if (targets.length === 0) return selected.length === 1 ? `表情 ${selected[0].seq} 没有置顶` : '选中的表情都没有置顶'
+      await albums.pin(targets, false, session.userId)
+      return `✅ 已取消置顶表情 ${targets.map(record => record.seq).join(', ')}`
+    }
+
+    const targets = selected.filter(record => !record.pinned)
+    if (targets.length === 0) return selected.length === 1 ? `表情 ${selected[0].seq} 已经置顶` : '选中的表情都已经置顶'
+    const pinnedCount = records.filter(record => record.pinned).length
+    try {
+      await albums.pin(targets, true, session.userId)
+    } catch (error) {
+      return `❌ ${error.message}`
+    }
+    return `📌 已置顶表情 ${targets.map(record => record.seq).join(', ')}，置顶的表情不会因容量不足被移除（${pinnedCount + targets.length}/${config.maxPinned}）`
+  }
+
+  /**
+   * 设置表情名称
+   */
+  async function renameEmoji(session: Session, album: Album, key: string, name: string) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    const records = await albums.list(album.id)
+
+    const record = findRecord(records, key)
+    if (!record) {
+      return recordNotFoundMessage(key)
+    }
+    const nameError = await albums.checkName(album.id, name, record.id)
+    if (nameError) {
+      return `❌ ${nameError}`
+    }
+    await albums.update(record, { name: name.trim() }, session.userId)
+    return `✅ 已将表情 ${record.seq} 命名为: ${name.trim()}`
+  }
+
+  /**
+   * 添加或移除表情标签，支持批量选择
+   */
+  async function tagEmoji(session: Session, album: Album, key: string, input: string, remove: boolean) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    const tags = parseTags(input)
+    if (tags.length === 0) {
+      return '请指定至少一个标签'
+    }
+
+    const records = await albums.list(album.id)
+
+    const selected = selectRecords(records, key)
+    if (selected.length === 0) {
+      return recordNotFoundMessage(key)
+    }
+
+    const lines: string[] = []
+    for (const record of selected) {
+      const current = record.tags || []
+      const updated = remove
+        ? current.filter(tag => !tags.includes(tag))
+        : [...new Set([...current, ...tags])]
+
+      await albums.update(record, { tags: updated }, session.userId)
+      debugLog('更新表情标签', { id: record.id, tags: updated })
+
+      lines.push(updated.length
+        ? `✅ 表情 ${record.seq} 的标签: #${updated.join(' #')}`
+        : `✅ 表情 ${record.seq} 已没有标签`)
+    }
+    return lines.join('\n')
+  }
+
+  /**
+   * 按名称、标签或上传者搜索表情
+   */
+  async function searchAlbum(album: Album, keyword: string) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    // 支持直接 @ 上传者
+    const atId = h.select(keyword, 'at')[0]?.attrs.id
+    const hits = await albums.search(album.id, atId || keyword)
+
+    debugLog('搜索相册', { keyword, hits: hits.length })
+
+    const label = atId ? `@${atId}` : keyword.trim()
+    if (hits.length === 0) {
+      return `🔍 没有找到与 "${label}" 相关的表情`
+    }
+
+    let result = `🔍 找到 ${hits.length} 个与 "${label}" 相关的表情\n\n`
+    result += hits.map(formatRecordLine).join('\n')
+    result += `\n\n💡 使用 "${albumCommand(album)}发送 <编号>" 来发送指定表情`
+    return result
+  }
+
+  /**
+   * 表情发送排行
+   */
+  async function rankAlbum(album: Album, period: StatsPeriod, limit: number) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    const counts = await stats.ranking(album.id, period)
+    const records = (await albums.list(album.id))
+      .filter(record => counts.has(record.id))
+      .sort((a, b) => counts.get(b.id)! - counts.get(a.id)! || a.seq - b.seq)
+      .slice(0, limit)
+
+    if (records.length === 0) {
+      return `📊 ${periodNames[period]}还没有发送过相册中的表情`
+    }
+
+    let result = `📊 表情排行（${periodNames[period]}）\n\n`
+    result += records.map((record, i) => `${i + 1}. [${record.seq}] ${record.name || record.fileName} — ${counts.get(record.id)} 次`).join('\n')
+    result += `\n\n💡 使用 "${albumCommand(album)}发送 <编号>" 来发送指定表情`
+    return result
+  }
+
+  /**
+   * 相册统计：容量、GIF/静态图占比、上传和发送最多的用户
+   */
+  async function albumStats(album: Album) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    const records = await albums.list(album.id)
+    if (records.length === 0) {
+      return '相册为空，快去转存一些表情吧！'
+    }
+
+    const bytes = records.reduce((sum, record) => sum + record.size, 0)
+    const gifCount = records.filter(record => record.isGif).length
+    const sendCount = records.reduce((sum, record) => sum + (record.sendCount || 0), 0)
+    const quota = config.albumQuotaMB ? ` / ${config.albumQuotaMB}MB` : ''
+    const percent = (count: number) => Math.round(count / records.length * 100)
+
+    const uploaders = new Map<string, number>()
+    for (const record of records) {
+      uploaders.set(record.uploaderId, (uploaders.get(record.uploaderId) || 0) + 1)
+    }
+    const topUploaders = [...uploaders].sort((a, b) => b[1] - a[1]).slice(0, 5)
+    const topSenders = [...await stats.topSenders(album.id)].sort((a, b) => b[1] - a[1]).slice(0, 5)
+
+    const lines = [
+      `📈 ${album.personal ? '个人相册' : '群相册'}统计`,
+      '',
+      `📦 表情数量: ${records.length} / ${albums.maxSize(album.id)}`,
+      `💾 占用空间: ${formatBytes(bytes)}${quota}`,
+      `🎞️ GIF: ${gifCount} 个（${percent(gifCount)}%）`,
+      `🖼️ 静态图: ${records.length - gifCount} 个（${percent(records.length - gifCount)}%）`,
+      `📌 置顶: ${records.filter(record => record.pinned).length} 个`,
+      `📤 累计发送: ${sendCount} 次`,
+    ]
+    if (!album.personal) {
+      lines.push('', '👥 上传最多:')
+      lines.push(...topUploaders.map(([userId, count], i) => `${i + 1}. ${userId} — ${count} 个`))
+      if (topSenders.length) {
+        lines.push('', '🔥 发送最多:')
+        lines.push(...topSenders.map(([userId, count], i) => `${i + 1}. ${userId} — ${count} 次`))
+      }
+    }
+    return lines.join('\n')
+  }
+
+  // 触发词缓存（按群组），避免每条消息都查询数据库
+  const triggerCache = new Map<string, CompiledTrigger[]>()
+  // 各群组上次自动回复的时间
+  const triggerCooldowns = new Map<string, number>()
+
+  async function getChannelTriggers(channelId: string): Promise<CompiledTrigger[]> {
+    let triggers = triggerCache.get(channelId)
+    if (!triggers) {
+      triggers = (await ctx.database.get('sticker_trigger', { channelId })).map(compileTrigger)
+      triggerCache.set(channelId, triggers)
+    }
+    return triggers
+  }
+
+  /**
+   * 判断消息是否命中触发词
    */
-  async function clearAlbum(session: Session) {
+  function matchTrigger(trigger: CompiledTrigger, content: string): boolean {
+    switch (trigger.mode) {
+      case 'exact':
+        return content === trigger.phrase
+      case 'contains':
+        return content.includes(trigger.phrase)
+      case 'regex':
+        // 不安全的正则不会被编译，也就不会命中
+        return !!trigger.pattern?.test(content)
+      default:
+        return false
+    }
+  }
+
+  /**
+   * 绑定触发词（权限可配置）
+   */
+  async function bindTrigger(session: Session, key: string, input: string, mode: TriggerMode) {
+    if (session.isDirect) {
+      return '❌ 触发词仅支持群聊使用'
+    }
+
     if (!isAlbumEnabledForGroup(session.channelId)) {
       return '❌ 此群组未启用相册功能'
     }
 
-    // 检查用户权限
     if (!hasDeletePermission(session)) {
-      const levelNames = ['', '普通用户', '信任用户', '管理员', '群主', '机器人管理员']
-      return `❌ 权限不足，清空相册需要 ${levelNames[config.deletePermissionLevel]} 或以上权限`
+      return await permissionDenied(session, session.channelId, '绑定触发词')
     }
 
-    const records = await ctx.database
-      .select('sticker_archive')
-      .where({ channelId: session.channelId })
-      .execute()
-
-    if (records.length === 0) {
-      return '相册已经是空的了'
+    if (!['exact', 'contains', 'regex'].includes(mode)) {
+      return '❌ 匹配方式无效，可选: exact（完全匹配）、contains（包含）、regex（正则）'
     }
 
-    // 需要二次确认
-    await session.send('⚠️ 确定要清空整个相册吗？此操作不可恢复！\n回复 "确认" 继续，其他内容取消')
-    const confirm = await session.prompt(30000)
-    
-    if ((confirm as string)?.trim() !== '确认') {
-      return '❌ 操作已取消'
+    // 正则作为整体，其他方式支持空格分隔多个触发词
+    const phrases = mode === 'regex' ? [input.trim()] : parseTags(input)
+    if (mode === 'regex') {
+      const regexError = checkRegex(phrases[0])
+      if (regexError) {
+        return `❌ ${regexError}`
+      }
     }
 
-    try {
-      // 删除所有文件
-      for (const record of records) {
-        if (existsSync(record.filePath)) {
-          unlinkSync(record.filePath)
-        }
+    const records = await albums.list(session.channelId)
+
+    const record = findRecord(records, key)
+    if (!record) {
+      return recordNotFoundMessage(key)
+    }
+    const added: string[] = []
+    for (const phrase of phrases) {
+      if (await albums.bindTrigger(record, phrase, mode, session.userId)) {
+        added.push(phrase)
       }
+    }
+    debugLog('绑定触发词', { stickerId: record.id, mode, added })
 
-      // 删除数据库记录
-      await ctx.database.remove('sticker_archive', { channelId: session.channelId })
+    if (added.length === 0) {
+      return '📁 这些触发词已经绑定过了'
+    }
+    return `✅ 已将 ${added.map(phrase => `"${phrase}"`).join('、')} 绑定到表情 ${record.seq}`
+  }
 
-      return `✅ 已清空相册，删除了 ${records.length} 个表情`
-    } catch (error) {
-      logger.error('清空相册失败:', error)
-      return `❌ 清空失败: ${error.message}`
+  /**
+   * 解绑触发词（权限可配置）
+   */
+  async function unbindTrigger(session: Session, phrase: string) {
+    if (!isAlbumEnabledForGroup(session.channelId)) {
+      return '❌ 此群组未启用相册功能'
+    }
+
+    if (!hasDeletePermission(session)) {
+      return await permissionDenied(session, session.channelId, '解绑触发词')
     }
+
+    const removed = await albums.unbindTrigger(session.channelId, phrase.trim(), session.userId)
+    if (!removed.length) {
+      return `❌ 没有找到触发词 "${phrase.trim()}"`
+    }
+    return `✅ 已解绑触发词 "${phrase.trim()}"`
   }
 
-  // 注册命令
-  ctx.command('表情转换', '转换表情格式（不保存到相册）')
-    .action(async ({ session }) => {
-      return await convertEmojiOnly(session)
-    })
+  /**
+   * 列出当前群组的触发词
+   */
+  async function listTriggers(session: Session) {
+    if (!isAlbumEnabledForGroup(session.channelId)) {
+      return '❌ 此群组未启用相册功能'
+    }
 
-  ctx.command('表情转存', '转存表情到相册')
-    .action(async ({ session }) => {
-      return await convertEmoji(session)
-    })
+    const triggers = await getChannelTriggers(session.channelId)
+    if (triggers.length === 0) {
+      return '当前群组还没有绑定触发词'
+    }
 
-  ctx.command('表情相册 [page:number]', '查看表情相册')
-    .action(async ({ session }, page = 1) => {
-      return await viewAlbum(session, page)
-    })
+    const records = await ctx.database.get('sticker_archive', { channelId: session.channelId }, ['id', 'seq'])
+    const modeNames: Record<TriggerMode, string> = { exact: '完全匹配', contains: '包含', regex: '正则' }
 
-  ctx.command('表情相册发送 <index:number>', '发送指定编号的表情')
-    .action(async ({ session }, index) => {
-      if (!index) return '请指定表情编号'
-      return await sendEmoji(session, index)
-    })
+    let result = `🔔 触发词列表（共 ${triggers.length} 个）\n\n`
+    for (const trigger of triggers) {
+      const record = records.find(record => record.id === trigger.stickerId)
+      result += `"${trigger.phrase}" [${modeNames[trigger.mode]}] → 表情 ${record?.seq ?? '?'}\n`
+    }
+    return result.trimEnd()
+  }
 
-  ctx.command('表情相册删除 <index:number>', '删除指定编号的表情（需要权限）')
-    .action(async ({ session }, index) => {
-      if (!index) return '请指定表情编号'
-      return await deleteEmoji(session, index)
-    })
+  /**
+   * 扫描相册中的相似表情，可选合并（保留编号最小的一个）
+   */
+  async function scanDuplicates(session: Session, album: Album, merge: boolean, threshold?: number) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
 
-  ctx.command('表情相册清空', '清空相册（需要权限）')
-    .action(async ({ session }) => {
-      return await clearAlbum(session)
+    if (merge && !album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '合并表情')
+    }
+
+    const limit = threshold || config.duplicateThreshold || 5
+    const records = (await albums.ensurePhash(await albums.list(album.id)))
+      .filter(record => record.phash)
+      .sort((a, b) => a.seq - b.seq)
+
+    // 并查集：距离小于阈值的表情归为一组
+    const parent = records.map((_, i) => i)
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]))
+    for (let i = 0; i < records.length; i++) {
+      for (let j = i + 1; j < records.length; j++) {
+        if (records[i].md5 === records[j].md5 || hammingDistance(records[i].phash, records[j].phash) < limit) {
+          parent[find(j)] = find(i)
+        }
+      }
+    }
+
+    const groups = new Map<number, StickerRecord[]>()
+    records.forEach((record, i) => {
+      const root = find(i)
+      groups.set(root, [...groups.get(root) || [], record])
     })
+    const duplicates = [...groups.values()].filter(group => group.length > 1)
+    debugLog('相似表情扫描', { album: album.id, threshold: limit, groups: duplicates.length })
+
+    if (duplicates.length === 0) {
+      return `✅ 没有发现相似表情（阈值 ${limit}）`
+    }
+
+    const lines = duplicates.map(group => group.map(record => record.seq).join(' ≈ '))
+    if (!merge) {
+      return `🔍 发现 ${duplicates.length} 组相似表情（阈值 ${limit}）\n\n${lines.join('\n')}\n\n💡 使用 "表情相册查重 -m" 合并，每组保留编号最小的表情`
+    }
+
+    let removed = 0
+    for (const [keep, ...others] of duplicates) {
+      await albums.merge(keep, others, session.userId)
+      removed += others.length
+    }
+
+    return `✅ 已合并 ${duplicates.length} 组相似表情，删除了 ${removed} 个重复表情\n\n${lines.join('\n')}`
+  }
+
+  /**
+   * 按视觉相似度在相册中查找与回复图片相似的表情
+   */
+  async function findSimilar(session: Session, album: Album, limit: number) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    const [source] = extractStickers(session)
+    if (!source) {
+      return '请回复包含图片的消息后使用此命令'
+    }
+    const { url } = source
+
+    try {
+      const { buffer, mime } = await downloadImage(url, session.channelId)
+      const md5 = createHash('md5').update(buffer).digest('hex')
+      const phash = await computePhash(buffer, mime)
+      if (!phash) {
+        return '❌ 无法识别该图片，暂不支持此格式'
+      }
+
+      const ranked = (await albums.ensurePhash(await albums.list(album.id)))
+        .filter(record => record.phash)
+        .map(record => ({ record, distance: record.md5 === md5 ? 0 : hammingDistance(phash, record.phash) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, limit)
+      debugLog('查找相似表情', { album: album.id, candidates: ranked.length })
+
+      if (ranked.length === 0) {
+        return '相册为空，快去转存一些表情吧！'
+      }
+
+      const lines = ranked.map(({ record, distance }, i) => {
+        const label = record.name ? ` ${record.name}` : ''
+        return `${i + 1}. 编号 ${record.seq}${label}（相似度 ${similarity(distance)}%）`
+      })
+      let result = `🔍 相册中最相似的 ${ranked.length} 个表情\n\n${lines.join('\n')}`
+      if (config.duplicateThreshold && ranked[0].distance < config.duplicateThreshold) {
+        result += `\n\n📁 编号 ${ranked[0].record.seq} 与该图片几乎相同，无需重复转存`
+      }
+      await session.send(result)
+
+      const similarities = new Map(ranked.map(({ record, distance }) => [record.id, similarity(distance)]))
+      try {
+        const sheet = await renderRecordSheet(ranked.map(({ record }) => record), record => `${similarities.get(record.id)}%`)
+        await session.send(h.image(sheet, 'image/png'))
+      } catch (error) {
+        logger.warn('生成相似表情缩略图失败:', error)
+      }
+      return ''
+    } catch (error) {
+      logger.error('查找相似表情失败:', error)
+      return `❌ 查找失败: ${error.message}`
+    }
+  }
+
+  /**
+   * 清空相册（权限可配置）
+   */
+  async function clearAlbum(session: Session, album: Album) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    // 检查用户权限（个人相册由本人管理）
+    if (!album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '清空相册')
+    }
+
+    const records = await albums.list(album.id)
+
+    if (records.length === 0) {
+      return '相册已经是空的了'
+    }
+
+    // 需要二次确认
+    const warning = config.recycleRetentionDays
+      ? `删除的表情会在回收站保留 ${config.recycleRetentionDays} 天`
+      : '此操作不可恢复！'
+    await session.send(`⚠️ 确定要清空整个相册吗？${warning}\n回复 "确认" 继续，其他内容取消`)
+    const confirm = await session.prompt(30000)
+    
+    if ((confirm as string)?.trim() !== '确认') {
+      return '❌ 操作已取消'
+    }
+
+    try {
+      for (const record of records) {
+        await albums.delete(record, 'clear', session.userId)
+      }
+
+      const hint = config.recycleRetentionDays ? '，可使用 "表情回收站" 查看和恢复' : ''
+      return `✅ 已清空相册，删除了 ${records.length} 个表情${hint}`
+    } catch (error) {
+      logger.error('清空相册失败:', error)
+      return `❌ 清空失败: ${error.message}`
+    }
+  }
+
+  /**
+   * 在群相册与个人相册之间复制表情（共用同一文件）
+   */
+  async function copyEmoji(session: Session, source: Album, target: Album, key: string) {
+    if (!isAlbumEnabled(source)) {
+      return albumDisabledMessage(source)
+    }
+    if (!isAlbumEnabled(target)) {
+      return albumDisabledMessage(target)
+    }
+
+    const records = await albums.list(source.id)
+
+    const selected = selectRecords(records, key)
+    if (selected.length === 0) {
+      return recordNotFoundMessage(key)
+    }
+    const targetName = target.personal ? '个人相册' : '群相册'
+
+    const results: string[] = []
+    for (const record of selected) {
+      try {
+        const result = await albums.copy(record, target.id, { operatorId: session.userId, note: `从 ${source.id} 复制` })
+        if ('duplicate' in result) {
+          results.push(duplicateMessage(result.duplicate, targetName))
+          continue
+        }
+        const { record: { seq }, evicted } = result
+        debugLog('复制表情', { from: source.id, to: target.id, stickerId: record.id })
+
+        results.push(`✅ 已将表情 ${record.seq} 复制到${targetName}（新编号 ${seq}）`)
+        if (evicted.length) {
+          results.push(evictedMessage(target, evicted))
+        }
+      } catch (error) {
+        logger.error('复制表情失败:', error)
+        results.push(`❌ 复制失败: ${error.message}`)
+      }
+    }
+    return results.join('\n')
+  }
+
+  /**
+   * 将表情复制或移动到其他群的相册，文件由两边的记录共用
+   */
+  async function transferEmoji(session: Session, key: string, targetId: string, move: boolean) {
+    const source = resolveAlbum(session)
+    const target: Album = { id: targetId, personal: false }
+    const action = move ? '移动' : '复制'
+
+    if (!isAlbumEnabled(source)) {
+      return albumDisabledMessage(source)
+    }
+    if (source.id === target.id) {
+      return '❌ 目标群与当前相册相同'
+    }
+    if (!isAlbumEnabledForGroup(target.id)) {
+      return `❌ 群 ${target.id} 未启用相册功能`
+    }
+
+    // 需要同时拥有当前相册和目标群的管理权限
+    if (!source.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, source.id, `${action}表情`)
+    }
+    if (await getMemberPermission(session, target.id) < config.deletePermissionLevel) {
+      return await permissionDenied(session, target.id, `${action}表情`, `在群 ${target.id} 中`)
+    }
+
+    const selected = selectRecords(await albums.list(source.id), key)
+    if (selected.length === 0) {
+      return recordNotFoundMessage(key)
+    }
+    if (move && !await confirmBatch(session, selected, `移动到群 ${target.id}`)) {
+      return '❌ 操作已取消'
+    }
+
+    const maxSize = albums.maxSize(target.id)
+    const maxBytes = config.albumQuotaMB * 1024 * 1024
+    const done: string[] = []
+    const skipped: string[] = []
+
+    for (const record of selected) {
+      // 不为了腾出空间移除目标群已有的表情
+      const targetRecords = await albums.list(target.id)
+      const bytes = targetRecords.reduce((sum, item) => sum + item.size, 0)
+      if (targetRecords.length >= maxSize) {
+        skipped.push(`${record.seq}: 目标相册已满`)
+        continue
+      }
+      if (maxBytes && bytes + record.size > maxBytes) {
+        skipped.push(`${record.seq}: 超出目标相册空间上限`)
+        continue
+      }
+
+      try {
+        // 保留原上传者，先建立新记录再删除原记录，文件始终有引用
+        const result = await albums.copy(record, target.id, {
+          operatorId: session.userId,
+          uploaderId: record.uploaderId,
+          note: `从 ${source.id} ${action}`,
+          evict: false,
+        })
+        if ('duplicate' in result) {
+          skipped.push(`${record.seq}: 与目标相册中的表情 ${result.duplicate.record.seq} 重复`)
+          continue
+        }
+        if (move) {
+          await albums.remove(record, 'move', session.userId, `移动到 ${target.id}`)
+        }
+        done.push(`${record.seq} → ${result.record.seq}`)
+      } catch (error) {
+        logger.warn(`${action}表情失败:`, error)
+        skipped.push(`${record.seq}: ${error.message}`)
+      }
+    }
+
+    debugLog(`${action}表情`, { from: source.id, to: target.id, done: done.length, skipped: skipped.length })
+
+    let result = done.length
+      ? `✅ 已将 ${done.length} 个表情${action}到群 ${target.id}（原编号 → 新编号）:\n${done.join('\n')}`
+      : `❌ 没有表情被${action}`
+    if (skipped.length) {
+      result += `\n⚠️ 跳过 ${skipped.length} 个:\n${skipped.join('\n')}`
+    }
+    return result
+  }
+
+  /** 导入的压缩包大小上限，也是解压后的总大小上限（表情文件在压缩包中不压缩） */
+  const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024
+  /** 导入的压缩包中的文件数上限，远大于相册容量上限 */
+  const MAX_ARCHIVE_ENTRIES = 1000
+
+  /**
+   * 将相册导出为包含所有表情文件和清单的 zip
+   */
+  async function exportAlbum(session: Session, album: Album) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    const records = await albums.list(album.id)
+    if (records.length === 0) {
+      return '相册为空，没有可导出的表情'
+    }
+
+    const files: ArchiveFile[] = []
+    const missing: number[] = []
+    for (const record of [...records].sort((a, b) => a.seq - b.seq)) {
+      if (!existsSync(record.filePath)) {
+        missing.push(record.seq)
+        continue
+      }
+      files.push({
+        entry: {
+          file: `stickers/${record.seq}-${record.md5}.${record.ext}`,
+          seq: record.seq,
+          md5: record.md5,
+          mime: record.mime,
+          ext: record.ext,
+          size: record.size,
+          isGif: record.isGif,
+          name: record.name || '',
+          tags: record.tags || [],
+          pinned: !!record.pinned,
+          uploaderId: record.uploaderId,
+          createdAt: new Date(record.createdAt).toISOString(),
+        },
+        data: await readFile(record.filePath),
+      })
+    }
+
+    try {
+      const archive = packAlbum(album.id, files)
+      const date = new Date().toISOString().split('T')[0]
+      const fileName = `sticker-album-${album.id.replace(/[^\w-]/g, '_')}-${date}.zip`
+      debugLog('导出相册', { album: album.id, count: files.length, size: archive.length })
+      await sendFileWithName(session, archive, fileName, undefined, true)
+
+      let result = `📦 已导出 ${files.length} 个表情（${formatBytes(archive.length)}）`
+      if (missing.length) {
+        result += `\n⚠️ 以下编号的文件已丢失，未包含在导出文件中: ${missing.join(', ')}`
+      }
+      return result
+    } catch (error) {
+      logger.error('导出相册失败:', error)
+      return `❌ 导出失败: ${error.message}`
+    }
+  }
+
+  /**
+   * 从回复的 zip 导入表情，按去重和容量规则逐个添加
+   */
+  async function importAlbum(session: Session, album: Album) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    if (!album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '导入相册')
+    }
+
+    const file = session.quote && h.select(session.quote.elements, 'file')[0]
+    const url = file?.attrs.src || file?.attrs.url
+    if (!url) {
+      return '请回复 "表情相册导出" 生成的 zip 文件后使用此命令'
+    }
+
+    let archive: ReturnType<typeof unpackAlbum>
+    try {
+      const data = await downloader.download(url, session.channelId, MAX_ARCHIVE_SIZE)
+      archive = unpackAlbum(data, {
+        maxFileSize: config.maxDownloadMB * 1024 * 1024,
+        maxTotalSize: MAX_ARCHIVE_SIZE,
+        maxEntries: MAX_ARCHIVE_ENTRIES,
+      })
+    } catch (error) {
+      logger.warn('读取导入文件失败:', error)
+      return `❌ 导入失败: ${error.message}`
+    }
+    const { manifest, files } = archive
+
+    const maxSize = albums.maxSize(album.id)
+    const maxBytes = config.albumQuotaMB * 1024 * 1024
+    const skipped: string[] = []
+    let imported = 0
+
+    for (const entry of [...manifest.entries].sort((a, b) => a.seq - b.seq)) {
+      const label = `${entry.seq}${entry.name ? `（${entry.name}）` : ''}`
+      const data = files[entry.file]
+      if (!data) {
+        skipped.push(`${label}: 压缩包中缺少文件`)
+        continue
+      }
+
+      const buffer = Buffer.from(data)
+      const md5 = createHash('md5').update(buffer).digest('hex')
+      if (md5 !== entry.md5) {
+        skipped.push(`${label}: 文件校验失败`)
+        continue
+      }
+
+      // 导入不移除相册中已有的表情，空间不足时跳过剩余表情
+      const records = await albums.list(album.id)
+      const bytes = records.reduce((sum, record) => sum + record.size, 0)
+      if (records.length >= maxSize) {
+        skipped.push(`${label}: 相册已满`)
+        continue
+      }
+      if (maxBytes && bytes + buffer.length > maxBytes) {
+        skipped.push(`${label}: 超出相册空间上限`)
+        continue
+      }
+
+      try {
+        // 不传类型，以文件内容为准，不信任清单中的类型
+        const pinned = entry.pinned && records.filter(record => record.pinned).length < config.maxPinned
+        const result = await albums.add(album.id, {
+          buffer,
+          uploaderId: entry.uploaderId || session.userId,
+          // 名称在当前相册中不可用时导入为无名称的表情
+          name: entry.name && !await albums.checkName(album.id, entry.name) ? entry.name : undefined,
+          tags: entry.tags,
+          pinned,
+          createdAt: entry.createdAt ? new Date(entry.createdAt) : undefined,
+        }, { operatorId: session.userId, note: '导入' })
+        if ('duplicate' in result) {
+          skipped.push(`${label}: 与已有表情 ${result.duplicate.record.seq} 重复`)
+          continue
+        }
+        imported++
+      } catch (error) {
+        logger.warn(`导入表情失败: ${entry.file}`, error)
+        skipped.push(`${label}: ${error.message}`)
+      }
+    }
+
+    debugLog('导入相册', { album: album.id, from: manifest.albumId, imported, skipped: skipped.length })
+
+    let result = `📥 已导入 ${imported} 个表情${album.personal ? '到个人相册' : ''}`
+    if (skipped.length) {
+      result += `\n⚠️ 跳过 ${skipped.length} 个（按原编号）:\n${skipped.join('\n')}`
+    }
+    return result
+  }
+
+  const recycleReasons: Record<RecycleReason, string> = {
+    delete: '删除',
+    clear: '清空',
+    evict: '容量清理',
+    merge: '合并重复',
+  }
+
+  /**
+   * 查看回收站
+   */
+  async function viewRecycleBin(album: Album) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+    if (!config.recycleRetentionDays) {
+      return '❌ 未启用回收站，删除的表情无法恢复'
+    }
+
+    const items = await albums.listRecycled(album.id)
+    if (items.length === 0) {
+      return '🗑️ 回收站是空的'
+    }
+
+    const retention = config.recycleRetentionDays * 24 * 60 * 60 * 1000
+    const lines = items.slice(0, 20).map((item) => {
+      const { record } = item
+      const daysLeft = Math.max(Math.ceil((new Date(item.deletedAt).getTime() + retention - Date.now()) / 86400000), 0)
+      const operator = item.operatorId ? `，操作者 ${item.operatorId}` : ''
+      return `[${item.id}] 原编号 ${record.seq} ${record.isGif ? '🎞️' : '🖼️'} ${record.name || record.fileName}（${recycleReasons[item.reason]}${operator}，${daysLeft} 天后清除）`
+    })
+    if (items.length > lines.length) {
+      lines.push(`...等共 ${items.length} 个`)
+    }
+
+    return `🗑️ 回收站（共 ${items.length} 个，保留 ${config.recycleRetentionDays} 天）\n\n${lines.join('\n')}\n\n💡 使用 "表情回收站恢复 <回收站编号>" 恢复表情，支持 1,4,7、3-10、全部`
+  }
+
+  /**
+   * 从回收站恢复表情，尽量沿用原编号，并恢复绑定的触发词
+   */
+  async function restoreRecycled(session: Session, album: Album, key: string) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    if (!album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '恢复表情')
+    }
+
+    const items = await albums.listRecycled(album.id)
+    // 回收站编号参与选择，其余条件按原记录判断
+    const selected = applySelection(items.map(item => ({
+      ...item.record,
+      seq: item.id,
+      item,
+    })), parseSelection(key)).map(entry => entry.item)
+    if (selected.length === 0) {
+      return `❌ 回收站中找不到 "${key.trim()}"`
+    }
+
+    const results: string[] = []
+    for (const item of selected) {
+      const data = item.record
+      try {
+        const result = await albums.restore(item, session.userId)
+        if ('duplicate' in result) {
+          results.push(`⚠️ [${item.id}] 未恢复：相册中已有相同或相似的表情（编号 ${result.duplicate.record.seq}）`)
+          continue
+        }
+        const { record: restored, evicted } = result
+        results.push(`✅ 已恢复 [${item.id}] 为编号 ${restored.seq}${data.name ? `（${data.name}）` : ''}`)
+        if (evicted.length) {
+          results.push(evictedMessage(album, evicted))
+        }
+      } catch (error) {
+        logger.warn('恢复表情失败:', error)
+        results.push(`❌ [${item.id}] 恢复失败: ${error.message}`)
+      }
+    }
+    return results.join('\n')
+  }
+
+  /**
+   * 查询相册操作日志
+   */
+  async function viewAuditLog(session: Session, album: Album, options: AuditQueryOptions) {
+    if (!isAlbumEnabled(album)) {
+      return albumDisabledMessage(album)
+    }
+
+    if (!album.personal && !hasDeletePermission(session)) {
+      return await permissionDenied(session, album.id, '查看操作日志')
+    }
+
+    let action: AuditAction | undefined
+    if (options.action) {
+      const value = options.action.trim()
+      action = (Object.keys(auditActionNames) as AuditAction[])
+        .find(key => key === value.toLowerCase() || auditActionNames[key] === value)
+      if (!action) {
+        return `❌ 无效的操作类型 "${value}"，可选: ${Object.values(auditActionNames).join('、')}`
+      }
+    }
+
+    let range: ReturnType<typeof parseTimeRange> = {}
+    if (options.time) {
+      try {
+        range = parseTimeRange(options.time)
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+    }
+
+    const operatorId = options.user && (h.select(options.user, 'at')[0]?.attrs.id || options.user.trim())
+    const entries = await audit.query(album.id, {
+      operatorId,
+      action,
+      ...range,
+      limit: Math.min(Math.max(options.limit || 20, 1), 100),
+    })
+    if (entries.length === 0) {
+      return '📜 没有符合条件的操作记录'
+    }
+
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const lines = entries.map((entry) => {
+      const date = new Date(entry.createdAt)
+      const time = `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+      const sticker = entry.md5 ? ` 编号 ${entry.seq}（${entry.md5.slice(0, 8)}）` : ''
+      const detail = entry.detail ? ` ${entry.detail}` : ''
+      return `[${time}] ${entry.operatorId || '系统'} ${auditActionNames[entry.action] || entry.action}${sticker}${detail}`
+    })
+    return `📜 操作日志（最近 ${entries.length} 条）\n\n${lines.join('\n')}`
+  }
+
+  /**
+   * 对照数据库检查表情文件，回收站中的表情同样引用文件
+   */
+  async function checkIntegrity(): Promise<IntegrityReport<CheckedRecord>> {
+    const records: CheckedRecord[] = await ctx.database.get('sticker_archive', {})
+    const recycled = await ctx.database.get('sticker_recycle', {})
+    return await checkFiles([...records, ...recycled.map(item => ({ ...item.record, recycleId: item.id }))], [
+      { dir: blobs.root, depth: 1 },
+      // 旧版本直接存放在存储目录中的文件
+      { dir: storageDir, depth: 0 },
+    ])
+  }
+
+  /**
+   * 修复检查发现的问题：删除文件已损坏的记录，按实际文件更新类型和大小，删除多余文件
+   */
+  async function repairIntegrity(report: IntegrityReport<CheckedRecord>, operatorId: string = '') {
+    let removed = 0
+    let updated = 0
+    let deleted = 0
+
+    const broken: [CheckedRecord[], string][] = [
+      [report.missing, '文件丢失'],
+      [report.mismatched, '文件内容与记录不符'],
+      [report.invalid, '文件不是有效的图片'],
+    ]
+    for (const [refs, reason] of broken) {
+      for (const { recycleId, ...record } of refs) {
+        if (recycleId) {
+          await albums.log('repair', record, operatorId, `删除回收站中的记录：${reason}`)
+          await albums.purge({ id: recycleId, record })
+        } else {
+          await albums.remove(record, 'repair', operatorId, `删除记录：${reason}`)
+        }
+        // 损坏的文件没有其他正常记录引用
+        await unlink(record.filePath).catch(() => {})
+        removed++
+      }
+    }
+
+    for (const { ref: { recycleId, ...record }, mime, ext, size } of report.metadata) {
+      // 扩展名随类型改变时移动文件，同一文件的其他记录随后得到相同的新路径
+      const filePath = ext !== record.ext && blobs.isManaged(record.filePath)
+        ? await blobs.adopt(record.filePath, record.md5, ext)
+        : record.filePath
+      await albums.repair(record, { mime, ext, size, filePath, isGif: mime === 'image/gif' }, operatorId, recycleId)
+      updated++
+    }
+
+    for (const file of report.orphans) {
+      await unlink(file).catch(() => {})
+      deleted++
+    }
+
+    // 删除记录后重新统计引用计数
+    const records = await ctx.database.get('sticker_archive', {})
+    const recycled = await ctx.database.get('sticker_recycle', {})
+    deleted += await blobs.recount([...records, ...recycled.map(item => item.record)])
+    return { removed, updated, deleted }
+  }
+
+  /**
+   * 生成检查结果，每类问题最多列出 10 项
+   */
+  function formatIntegrityReport(report: IntegrityReport<CheckedRecord>): string {
+    const describe = (ref: CheckedRecord) => ref.recycleId
+      ? `${ref.channelId} 回收站 ${ref.recycleId}`
+      : `${ref.channelId} 编号 ${ref.seq}`
+    const section = (title: string, items: string[]) => {
+      if (!items.length) return []
+      const more = items.length > 10 ? `\n  …等 ${items.length} 项` : ''
+      return [`${title}（${items.length}）：\n  ${items.slice(0, 10).join('\n  ')}${more}`]
+    }
+    return [
+      `🔍 已检查 ${report.checked} 个文件`,
+      ...section('❌ 文件丢失', report.missing.map(describe)),
+      ...section('❌ 内容与 MD5 不符', report.mismatched.map(describe)),
+      ...section('❌ 不是有效的图片', report.invalid.map(describe)),
+      ...section('⚠️ 类型或大小不符', report.metadata.map(({ ref, mime, size }) => `${describe(ref)}：${ref.mime} ${formatBytes(ref.size)} → ${mime} ${formatBytes(size)}`)),
+      ...section('🗑️ 多余文件', report.orphans.map(file => relative(storageDir, file))),
+    ].join('\n')
+  }
+
+  /**
+   * 检查所有相册的表情文件，fix 为 true 时修复发现的问题
+   */
+  async function inspectStorage(session: Session, fix: boolean) {
+    const report = await checkIntegrity()
+    if (!hasIssues(report)) {
+      return `✅ 已检查 ${report.checked} 个文件，未发现问题`
+    }
+    const summary = formatIntegrityReport(report)
+    if (!fix) {
+      return `${summary}\n\n使用 "表情相册检查 -f" 修复以上问题`
+    }
+    const { removed, updated, deleted } = await repairIntegrity(report, session.userId)
+    return `${summary}\n\n🔧 已修复：删除 ${removed} 条记录，更新 ${updated} 条记录，删除 ${deleted} 个文件`
+  }
+
+  if (config.integrityCheckInterval) {
+    ctx.setInterval(async () => {
+      try {
+        const report = await checkIntegrity()
+        if (!hasIssues(report)) return
+        logger.warn(formatIntegrityReport(report))
+        if (config.integrityAutoFix) {
+          const { removed, updated, deleted } = await repairIntegrity(report)
+          logger.info(`完整性检查已修复：删除 ${removed} 条记录，更新 ${updated} 条记录，删除 ${deleted} 个文件`)
+        }
+      } catch (error) {
+        logger.warn('完整性检查失败:', error)
+      }
+    }, config.integrityCheckInterval * 60 * 60 * 1000)
+  }
+
+  // HTTP 管理接口，在 server 服务可用时注册
+  if (config.enableApi) {
+    if (!config.apiToken) {
+      logger.warn('未设置 apiToken，HTTP 管理接口未启用')
+    } else {
+      ctx.inject(['server'], (ctx) => {
+        registerApi(ctx, albums, {
+          path: config.apiPath,
+          token: config.apiToken,
+          maxSize: config.maxDownloadMB * 1024 * 1024,
+          downloader,
+          // 与转存命令一致，按 defaultFormats 转换格式
+          transcode: (buffer, mime) => transcode(buffer, mime),
+          isEnabled: albumId => isAlbumEnabled({ id: albumId, personal: isPersonalAlbum(albumId) }),
+          thumbnail: async (record) => {
+            // 缩略图缓存即为 PNG 文件，无需重新编码
+            if (!existsSync(thumbnailPath(record))) await getThumbnail(record)
+            return await readFile(thumbnailPath(record))
+          },
+        })
+        logger.info(`HTTP 管理接口已启用: ${config.apiPath}`)
+      })
+    }
+  }
+
+  // 注册命令
+  ctx.command('表情转换', '转换表情格式（不保存到相册）')
+    .option('format', '-f <format:string> 输出格式：png/gif/webp/jpg')
+    .action(async ({ session, options }) => {
+      return await convertEmojiOnly(session, options)
+    })
+
+  ctx.command('表情转存', '转存表情到相册')
+    .option('name', '-n <name:string> 设置表情名称')
+    .option('tags', '-t <tags:string> 设置表情标签（逗号分隔）')
+    .option('personal', '-p 转存到个人相册')
+    .option('format', '-f <format:string> 输出格式：png/gif/webp/jpg')
+    .action(async ({ session, options }) => {
+      return await convertEmoji(session, options)
+    })
+
+  ctx.command('表情编辑 [key:string]', '编辑回复的图片或相册中的表情')
+    .option('size', '-s <size:string> 缩放：200（宽度）、200x100 或 50%')
+    .option('mirror', '-x 水平翻转')
+    .option('flip', '-y 垂直翻转')
+    .option('rotate', '-r <angle:number> 顺时针旋转（90 的倍数）')
+    .option('square', '-c 居中裁剪为正方形')
+    .option('reverse', '-b 倒放（动图）')
+    .option('speed', '-v <speed:number> 播放速度倍率（动图）')
+    .option('frames', '-k <range:string> 截取帧范围，如 3-10（动图）')
+    .option('format', '-f <format:string> 输出格式：png/gif/webp/jpg')
+    .option('save', '-a 将结果保存到相册')
+    .action(async ({ session, options }, key) => {
+      return await editEmoji(session, key, options)
+    })
+
+  ctx.command('表情相册 [page:number]', '查看表情相册')
+    .action(async ({ session }, page = 1) => {
+      return await viewAlbum(session, resolveAlbum(session), page)
+    })
+
+  ctx.command('表情相册发送 <key:text>', '发送指定编号的表情，支持批量选择如 1,4,7')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      return await sendEmoji(session, resolveAlbum(session), key)
+    })
+
+  ctx.command('表情相册删除 <key:text>', '删除指定编号的表情，支持批量选择如 3-10（需要权限）')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      return await deleteEmoji(session, resolveAlbum(session), key)
+    })
+
+  ctx.command('表情相册命名 <key:string> <name:text>', '设置指定编号表情的名称')
+    .action(async ({ session }, key, name) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      if (!name?.trim()) return '请指定表情名称'
+      return await renameEmoji(session, resolveAlbum(session), key, name)
+    })
+
+  ctx.command('表情相册标签 <key:string> <tags:text>', '为指定编号的表情添加标签')
+    .option('remove', '-r 移除指定标签')
+    .action(async ({ session, options }, key, tags) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      return await tagEmoji(session, resolveAlbum(session), key, tags, !!options.remove)
+    })
+
+  ctx.command('表情相册置顶 <key:text>', '置顶指定编号的表情（需要权限）')
+    .option('remove', '-r 取消置顶')
+    .action(async ({ session, options }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      return await pinEmoji(session, resolveAlbum(session), key.trim(), !!options.remove)
+    })
+
+  ctx.command('表情相册搜索 <keyword:text>', '按名称、标签或上传者搜索表情')
+    .action(async ({ session }, keyword) => {
+      if (!keyword?.trim()) return '请指定搜索关键词'
+      return await searchAlbum(resolveAlbum(session), keyword)
+    })
+
+  ctx.command('表情相册绑定 <key:string> <phrases:text>', '为指定编号的表情绑定触发词（需要权限）')
+    .option('mode', '-m <mode:string> 匹配方式：exact/contains/regex', { fallback: 'exact' })
+    .action(async ({ session, options }, key, phrases) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      if (!phrases?.trim()) return '请指定触发词'
+      return await bindTrigger(session, key, phrases, options.mode as TriggerMode)
+    })
+
+  ctx.command('表情相册解绑 <phrase:text>', '解绑指定触发词（需要权限）')
+    .action(async ({ session }, phrase) => {
+      if (!phrase?.trim()) return '请指定触发词'
+      return await unbindTrigger(session, phrase)
+    })
+
+  ctx.command('表情相册触发词', '查看当前群组的触发词')
+    .action(async ({ session }) => {
+      return await listTriggers(session)
+    })
+
+  ctx.command('表情相册清空', '清空相册（需要权限）')
+    .action(async ({ session }) => {
+      return await clearAlbum(session, resolveAlbum(session))
+    })
+
+  ctx.command('表情相册复制 <key:string> <target:string>', '将表情复制到其他群的相册，支持批量选择如 3-10（需要权限）')
+    .action(async ({ session }, key, target) => {
+      if (!key?.trim() || !target?.trim()) return '请指定表情编号和目标群号，例如：表情相册复制 3-10 123456'
+      return await transferEmoji(session, key, target.trim(), false)
+    })
+
+  ctx.command('表情相册移动 <key:string> <target:string>', '将表情移动到其他群的相册，支持批量选择如 3-10（需要权限）')
+    .action(async ({ session }, key, target) => {
+      if (!key?.trim() || !target?.trim()) return '请指定表情编号和目标群号，例如：表情相册移动 3-10 123456'
+      return await transferEmoji(session, key, target.trim(), true)
+    })
+
+  ctx.command('表情相册导出', '将相册导出为 zip 文件')
+    .action(async ({ session }) => {
+      return await exportAlbum(session, resolveAlbum(session))
+    })
+
+  ctx.command('表情相册导入', '从回复的 zip 文件导入表情（需要权限）')
+    .action(async ({ session }) => {
+      return await importAlbum(session, resolveAlbum(session))
+    })
+
+  ctx.command('表情回收站', '查看最近删除的表情')
+    .action(async ({ session }) => {
+      return await viewRecycleBin(resolveAlbum(session))
+    })
+
+  ctx.command('表情回收站恢复 <key:text>', '从回收站恢复表情（需要权限）')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定回收站编号'
+      return await restoreRecycled(session, resolveAlbum(session), key)
+    })
+
+  ctx.command('表情相册日志', '查看相册操作日志（需要权限）')
+    .option('user', '-u <user:string> 按操作者筛选（可 @ 用户）')
+    .option('action', '-a <action:string> 按操作类型筛选：转存/删除/清空/容量清理/恢复/移出/检查修复/权限不足')
+    .option('time', '-t <range:string> 时间范围：24h、7d 或 2024-05-01~2024-05-10')
+    .option('limit', '-n <count:number> 显示条数', { fallback: 20 })
+    .action(async ({ session, options }) => {
+      return await viewAuditLog(session, resolveAlbum(session), options)
+    })
+
+  ctx.command('表情相册检查', '检查所有相册的表情文件是否与记录一致', { authority: 4 })
+    .option('fix', '-f 修复发现的问题')
+    .action(async ({ session, options }) => {
+      return await inspectStorage(session, options.fix)
+    })
+
+  ctx.command('表情相册查重', '扫描相册中的相似表情')
+    .option('merge', '-m 合并相似表情（需要权限）')
+    .option('threshold', '-t <distance:number> 汉明距离阈值')
+    .action(async ({ session, options }) => {
+      return await scanDuplicates(session, resolveAlbum(session), !!options.merge, options.threshold)
+    })
+
+  ctx.command('表情找相似', '在相册中查找与回复图片相似的表情')
+    .option('limit', '-n <count:number> 返回数量', { fallback: 5 })
+    .action(async ({ session, options }) => {
+      return await findSimilar(session, resolveAlbum(session), Math.min(Math.max(options.limit, 1), 20))
+    })
+
+  ctx.command('表情排行 [period:string]', '查看表情发送排行（今日/本周/本月/全部）')
+    .option('limit', '-n <count:number> 显示数量', { fallback: 10 })
+    .action(async ({ session, options }, period) => {
+      const parsed = parsePeriod(period)
+      if (!parsed) return `无效的统计周期 "${period}"，可选：今日、本周、本月、全部`
+      return await rankAlbum(resolveAlbum(session), parsed, Math.min(Math.max(options.limit, 1), 50))
+    })
+
+  ctx.command('表情统计', '查看相册的容量、类型占比和贡献统计')
+    .action(async ({ session }) => {
+      return await albumStats(resolveAlbum(session))
+    })
+
+  ctx.command('我的表情 [page:number]', '查看个人相册')
+    .action(async ({ session }, page = 1) => {
+      return await viewAlbum(session, resolveAlbum(session, true), page)
+    })
+
+  ctx.command('我的表情发送 <key:text>', '发送个人相册中指定编号的表情')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      return await sendEmoji(session, resolveAlbum(session, true), key)
+    })
+
+  ctx.command('我的表情删除 <key:text>', '删除个人相册中指定编号的表情')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      return await deleteEmoji(session, resolveAlbum(session, true), key)
+    })
+
+  ctx.command('表情相册收藏 <key:text>', '将群相册中的表情复制到个人相册')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      if (session.isDirect) return '❌ 请在群聊中使用此命令'
+      return await copyEmoji(session, resolveAlbum(session), resolveAlbum(session, true), key)
+    })
+
+  ctx.command('我的表情分享 <key:text>', '将个人相册中的表情复制到当前群相册')
+    .action(async ({ session }, key) => {
+      if (!key?.trim()) return '请指定表情编号或名称'
+      if (session.isDirect) return '❌ 请在群聊中使用此命令'
+      return await copyEmoji(session, resolveAlbum(session, true), resolveAlbum(session), key)
+    })
+
+  // 触发词自动回复
+  ctx.middleware(async (session, next) => {
+    if (!config.enableTrigger || session.isDirect) return next()
+    if (!isAlbumEnabledForGroup(session.channelId)) return next()
+
+    const content = session.stripped.content.trim()
+    if (!content) return next()
+
+    const triggers = await getChannelTriggers(session.channelId)
+    const trigger = triggers.find(trigger => matchTrigger(trigger, content))
+    if (!trigger) return next()
+
+    const last = triggerCooldowns.get(session.channelId) || 0
+    if (Date.now() - last < config.triggerCooldown * 1000) {
+      debugLog('触发词冷却中', { channelId: session.channelId, phrase: trigger.phrase })
+      return next()
+    }
+
+    // 仅在没有其他中间件响应时才自动回复
+    return next(async () => {
+      const [record] = await ctx.database.get('sticker_archive', { id: trigger.stickerId })
+      if (!record) return
+      triggerCooldowns.set(session.channelId, Date.now())
+      debugLog('触发词命中', { phrase: trigger.phrase, stickerId: record.id })
+      await deliverRecord(session, record, 'trigger')
+    })
+  })
 }
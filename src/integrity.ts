@@ -0,0 +1,115 @@
+import { resolve } from 'path'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { readdir, readFile, stat } from 'fs/promises'
+import { sniffImage } from './format'
+
+/** 参与检查的文件引用（相册记录或回收站中的记录） */
+export interface FileReference {
+  md5: string
+  ext: string
+  mime: string
+  size: number
+  filePath: string
+}
+
+/** 记录中的类型或大小与实际文件不符 */
+export interface MetadataIssue<T> {
+  ref: T
+  mime: string
+  ext: string
+  size: number
+}
+
+export interface IntegrityReport<T> {
+  /** 检查的文件数 */
+  checked: number
+  /** 文件不存在 */
+  missing: T[]
+  /** 文件内容与 MD5 不符 */
+  mismatched: T[]
+  /** 文件不是可识别的图片 */
+  invalid: T[]
+  metadata: MetadataIssue<T>[]
+  /** 没有被任何记录引用的文件 */
+  orphans: string[]
+}
+
+/** 扫描多余文件的目录，depth 为向下查找的子目录层数 */
+export interface ScanRoot {
+  dir: string
+  depth: number
+}
+
+/** 最近写入的文件可能还没来得及创建记录，不视为多余文件 */
+const ORPHAN_MIN_AGE = 60 * 60 * 1000
+
+async function listFiles(dir: string, depth: number): Promise<string[]> {
+  if (!existsSync(dir)) return []
+  const files: string[] = []
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = resolve(dir, entry.name)
+    if (entry.isFile()) {
+      files.push(path)
+    } else if (entry.isDirectory() && depth > 0) {
+      files.push(...await listFiles(path, depth - 1))
+    }
+  }
+  return files
+}
+
+/**
+ * 对照记录检查磁盘上的文件，多条记录共用的文件只读取一次
+ */
+export async function checkFiles<T extends FileReference>(refs: T[], roots: ScanRoot[]): Promise<IntegrityReport<T>> {
+  const report: IntegrityReport<T> = { checked: 0, missing: [], mismatched: [], invalid: [], metadata: [], orphans: [] }
+
+  const byPath = new Map<string, T[]>()
+  for (const ref of refs) {
+    const path = resolve(ref.filePath)
+    byPath.set(path, [...byPath.get(path) || [], ref])
+  }
+
+  for (const [path, group] of byPath) {
+    if (!existsSync(path)) {
+      report.missing.push(...group)
+      continue
+    }
+    const buffer = await readFile(path)
+    report.checked++
+
+    const md5 = createHash('md5').update(buffer).digest('hex')
+    const [matched, mismatched] = [group.filter(ref => ref.md5 === md5), group.filter(ref => ref.md5 !== md5)]
+    report.mismatched.push(...mismatched)
+    if (!matched.length) continue
+
+    let mime: string, ext: string
+    try {
+      ({ mime, ext } = sniffImage(buffer))
+    } catch {
+      report.invalid.push(...matched)
+      continue
+    }
+    for (const ref of matched) {
+      if (ref.mime !== mime || ref.ext !== ext || ref.size !== buffer.length) {
+        report.metadata.push({ ref, mime, ext, size: buffer.length })
+      }
+    }
+  }
+
+  for (const { dir, depth } of roots) {
+    for (const file of await listFiles(dir, depth)) {
+      if (byPath.has(file)) continue
+      if (Date.now() - (await stat(file)).mtimeMs < ORPHAN_MIN_AGE) continue
+      report.orphans.push(file)
+    }
+  }
+  return report
+}
+
+/**
+ * 是否发现了任何问题
+ */
+export function hasIssues(report: IntegrityReport<unknown>): boolean {
+  return !!(report.missing.length || report.mismatched.length || report.invalid.length || report.metadata.length || report.orphans.length)
+}
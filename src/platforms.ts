@@ -0,0 +1,147 @@
+import { h, Session } from 'koishi'
+
+/** 从消息中提取到的可转存表情 */
+export interface StickerSource {
+  url: string
+  /** 来源元素类型，如 img、mface、face */
+  type: string
+  /** 平台提供的格式提示，实际格式以下载内容为准 */
+  mime?: string
+  name?: string
+}
+
+/** 需要以文件形式发送的内容 */
+export interface OutgoingFile {
+  buffer: Buffer
+  fileName: string
+  /** 已保存在本地的文件路径 */
+  filePath?: string
+  /** 即使配置为文件模式也必须发送 buffer（没有本地文件时） */
+  forceBuffer?: boolean
+}
+
+/**
+ * 平台适配：负责从消息元素中找出表情，以及按平台的方式发送文件
+ */
+export interface PlatformAdapter {
+  /** 适配的平台名，对应 session.platform */
+  platforms: string[]
+  extract(elements: h[]): StickerSource[]
+  /** 以文件形式发送，未实现时发送通用的文件元素 */
+  sendFile?(session: Session, file: OutgoingFile): Promise<void>
+}
+
+function imageSource(element: h): StickerSource | undefined {
+  const url = element.attrs.src || element.attrs.url
+  if (!url) return
+  return { url, type: element.type, mime: element.attrs.mime || element.attrs.type }
+}
+
+/**
+ * 选出指定类型的元素，跳过已被其他元素（如 face）包含的部分
+ */
+function selectOutside(elements: h[], types: string[], containers: h[]): h[] {
+  const nested = new Set(containers.flatMap(container => h.select(container.children, types.join(','))))
+  return h.select(elements, types.join(',')).filter(element => !nested.has(element))
+}
+
+/** 通用适配：只识别标准图片元素 */
+export const genericAdapter: PlatformAdapter = {
+  platforms: [],
+  extract(elements) {
+    return h.select(elements, 'img,image').map(imageSource).filter(Boolean)
+  },
+}
+
+/** QQ（OneBot）：普通图片和商城表情（mface） */
+export const oneBotAdapter: PlatformAdapter = {
+  platforms: ['onebot'],
+  extract(elements) {
+    return h.select(elements, 'img,image,mface').map((element) => {
+      // QQ 表情包 URL 在 attrs.url，普通图片在 attrs.src 或 attrs.url
+      if (element.type !== 'mface') return imageSource(element)
+      const url = element.attrs.url
+      return url && { url, type: 'mface', name: element.attrs.summary }
+    }).filter(Boolean)
+  },
+}
+
+/** Telegram：静态贴纸为 webp，视频贴纸为 webm */
+export const telegramAdapter: PlatformAdapter = {
+  platforms: ['telegram'],
+  extract(elements) {
+    return h.select(elements, 'img,image,video').map((element) => {
+      const source = imageSource(element)
+      if (!source || element.type !== 'video') return source
+      // 只接受视频贴纸，普通视频不是表情
+      return /\.webm($|\?)/i.test(source.url) || source.mime === 'video/webm'
+        ? { ...source, mime: 'video/webm' }
+        : undefined
+    }).filter(Boolean)
+  },
+}
+
+/**
+ * 带图片子元素的 face（自定义表情），没有子元素时按 id 拼接地址
+ */
+function faceSources(elements: h[], buildUrl: (face: h) => string | undefined): StickerSource[] {
+  const faces = h.select(elements, 'face')
+  const sources = faces.map((face): StickerSource | undefined => {
+    const [child] = h.select(face.children, 'img,image')
+    const url = child ? child.attrs.src || child.attrs.url : buildUrl(face)
+    return url && { url, type: 'face', name: face.attrs.name }
+  })
+  return [...sources, ...selectOutside(elements, ['img', 'image'], faces).map(imageSource)].filter(Boolean)
+}
+
+/** Discord：自定义表情和贴纸（不支持 Lottie 贴纸） */
+export const discordAdapter: PlatformAdapter = {
+  platforms: ['discord'],
+  extract(elements) {
+    const stickers = h.select(elements, 'sticker').map((sticker): StickerSource | undefined => {
+      const format = String(sticker.attrs.format || '')
+      if (format === 'lottie' || format === '3') return
+      const ext = format === 'gif' || format === '4' ? 'gif' : 'png'
+      const url = sticker.attrs.src || sticker.attrs.url || `https://media.discordapp.net/stickers/${sticker.attrs.id}.${ext}`
+      return { url, type: 'sticker', name: sticker.attrs.name }
+    })
+    const emojis = faceSources(elements, (face) => {
+      if (!face.attrs.id) return
+      return `https://cdn.discordapp.com/emojis/${face.attrs.id}.${face.attrs.animated ? 'gif' : 'png'}`
+    })
+    return [...stickers.filter(Boolean), ...emojis]
+  },
+}
+
+/** Kook：图片资源和服务器表情 */
+export const kookAdapter: PlatformAdapter = {
+  platforms: ['kook'],
+  extract(elements) {
+    return faceSources(elements, (face) => {
+      if (!face.attrs.id) return
+      return `https://img.kookapp.cn/emojis/${face.attrs.id}.png`
+    })
+  },
+}
+
+/**
+ * 按平台查找适配，后注册的优先，便于覆盖内置适配或注入测试用的模拟适配
+ */
+export class PlatformRegistry {
+  private adapters: PlatformAdapter[] = []
+
+  constructor(adapters: PlatformAdapter[] = [], private fallback: PlatformAdapter = genericAdapter) {
+    adapters.forEach(adapter => this.register(adapter))
+  }
+
+  register(adapter: PlatformAdapter): () => void {
+    this.adapters.unshift(adapter)
+    return () => {
+      this.adapters = this.adapters.filter(item => item !== adapter)
+    }
+  }
+
+  resolve(platform: string): PlatformAdapter {
+    return this.adapters.find(adapter => adapter.platforms.includes(platform)) || this.fallback
+  }
+}
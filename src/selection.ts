@@ -0,0 +1,108 @@
+/** 选择语法中的单个条件 */
+export type SelectionTerm =
+  | { type: 'seq', seq: number }
+  | { type: 'range', start: number, end: number }
+  | { type: 'name', name: string }
+  | { type: 'gif' }
+  | { type: 'static' }
+  | { type: 'uploader', userId: string }
+  | { type: 'all' }
+
+/** 参与选择所需的记录字段 */
+export interface Selectable {
+  seq: number
+  name: string
+  isGif: boolean
+  uploaderId: string
+}
+
+const keywords: Record<string, SelectionTerm> = {
+  gif: { type: 'gif' },
+  动图: { type: 'gif' },
+  静态: { type: 'static' },
+  静图: { type: 'static' },
+  全部: { type: 'all' },
+  all: { type: 'all' },
+}
+
+const SEQ_PATTERN = /^(\d+)$/
+const RANGE_PATTERN = /^(\d+)\s*[-~～]\s*(\d+)$/
+const SEPARATOR_PATTERN = /[,，、]/
+
+function keywordOf(value: string): SelectionTerm | undefined {
+  const key = value.toLowerCase()
+  return Object.hasOwn(keywords, key) ? keywords[key] : undefined
+}
+
+/**
+ * 解析选择语法：编号（5）、列表（1,4,7）、范围（3-10）、名称、动图/静态、全部、@上传者，多个条件用逗号分隔
+ */
+export function parseSelection(input: string): SelectionTerm[] {
+  // @ 元素中的昵称可能包含逗号，先替换为 @用户ID
+  const normalized = input.replace(/<at\b[^>]*?\bid="([^"]+)"[^>]*>(?:<\/at>)?/g, ',@$1,')
+
+  const terms: SelectionTerm[] = []
+  for (const part of normalized.split(SEPARATOR_PATTERN)) {
+    const value = part.trim()
+    if (!value) continue
+
+    let match: RegExpMatchArray | null
+    let keyword: SelectionTerm | undefined
+    if ((match = value.match(SEQ_PATTERN))) {
+      terms.push({ type: 'seq', seq: +match[1] })
+    } else if ((match = value.match(RANGE_PATTERN))) {
+      const [start, end] = [+match[1], +match[2]].sort((a, b) => a - b)
+      terms.push({ type: 'range', start, end })
+    } else if ((match = value.match(/^@(\S+)$/))) {
+      terms.push({ type: 'uploader', userId: match[1] })
+    } else if ((keyword = keywordOf(value))) {
+      terms.push(keyword)
+    } else {
+      terms.push({ type: 'name', name: value })
+    }
+  }
+  return terms
+}
+
+function matches(record: Selectable, term: SelectionTerm): boolean {
+  switch (term.type) {
+    case 'seq': return record.seq === term.seq
+    case 'range': return record.seq >= term.start && record.seq <= term.end
+    case 'name': return record.name === term.name
+    case 'gif': return record.isGif
+    case 'static': return !record.isGif
+    case 'uploader': return record.uploaderId === term.userId
+    case 'all': return true
+  }
+}
+
+/**
+ * 选出满足任一条件的记录，按编号排序
+ */
+export function applySelection<T extends Selectable>(records: T[], terms: SelectionTerm[]): T[] {
+  return records
+    .filter(record => terms.some(term => matches(record, term)))
+    .sort((a, b) => a.seq - b.seq)
+}
+
+/**
+ * 检查名称能否通过选择语法选中，不能时返回原因（是否与相册中的其他名称重复由调用方检查）
+ */
+export function checkNameSyntax(name: string): string | undefined {
+  const value = name.trim()
+  if (!value) return '名称不能为空'
+  if (SEQ_PATTERN.test(value) || RANGE_PATTERN.test(value)) return '名称不能是数字或编号范围'
+  if (value.startsWith('@')) return '名称不能以 @ 开头'
+  if (keywordOf(value)) return `"${value}" 是选择关键词，不能用作名称`
+  if (SEPARATOR_PATTERN.test(value)) return '名称不能包含逗号或顿号'
+}
+
+/**
+ * 解析标签：字符串按逗号、空格分隔，也接受字符串数组（HTTP 接口），结果去重
+ */
+export function parseTags(input: unknown): string[] {
+  const tags = Array.isArray(input)
+    ? input.map(String)
+    : typeof input === 'string' ? input.split(/[,，\s]+/) : []
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))]
+}
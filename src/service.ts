@@ -0,0 +1,751 @@
+import { $, Context, Logger, Service } from 'koishi'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { BlobStore } from './blob'
+import { UsageStats } from './stats'
+import { AuditAction, AuditLog } from './audit'
+import { EvictionPolicy, formatBytes, planAlbumEviction, planGlobalEviction } from './eviction'
+import { sniffImage } from './format'
+import { decodeImage } from './codec'
+import { dHash, hammingDistance } from './hash'
+import { checkNameSyntax } from './selection'
+import { checkRegex } from './trigger'
+import { discordAdapter, kookAdapter, oneBotAdapter, PlatformRegistry, telegramAdapter } from './platforms'
+import { DuplicateMatch, RecycledSticker, RecycleReason, StickerInput, StickerRecord, StickerTrigger, TriggerMode } from './types'
+
+declare module 'koishi' {
+  interface Context {
+    stickerAlbum: StickerAlbumService
+  }
+
+  interface Events {
+    'sticker-album/added'(record: StickerRecord): void
+    'sticker-album/deleted'(record: StickerRecord, reason: RemoveReason, operatorId: string): void
+    'sticker-album/evicted'(record: StickerRecord): void
+    'sticker-album/updated'(record: StickerRecord, fields: Partial<StickerRecord>, operatorId: string): void
+    'sticker-album/trigger-bound'(trigger: StickerTrigger, operatorId: string): void
+    'sticker-album/trigger-unbound'(trigger: StickerTrigger, operatorId: string): void
+  }
+}
+
+/** 表情离开相册的原因 */
+export type RemoveReason = Exclude<RecycleReason, 'evict'> | 'move' | 'repair'
+
+/** 相册服务用到的配置项 */
+export interface AlbumOptions {
+  albumMaxSize: number
+  personalAlbumMaxSize: number
+  maxPinned: number
+  evictionPolicy: EvictionPolicy
+  albumQuotaMB: number
+  globalQuotaMB: number
+  duplicateThreshold: number
+  recycleRetentionDays: number
+  debug: boolean
+}
+
+/** 可以直接修改的表情字段 */
+export type StickerUpdate = Partial<Pick<StickerRecord, 'name' | 'tags' | 'pinned' | 'sendCount'>>
+
+/** 检查修复时按实际文件更新的字段 */
+export type StickerFileInfo = Pick<StickerRecord, 'mime' | 'ext' | 'size' | 'filePath' | 'isGif'>
+
+export interface AddOptions {
+  /** 写入操作日志的操作者，默认为上传者 */
+  operatorId?: string
+  /** 操作日志中的说明，如 "导入" */
+  note?: string
+  /** 只按 MD5 判断重复，不检查相似表情 */
+  exact?: boolean
+}
+
+export interface CopyOptions {
+  operatorId: string
+  /** 新记录的上传者，默认为操作者 */
+  uploaderId?: string
+  note?: string
+  /** 相册已满时是否按策略移除旧表情 */
+  evict?: boolean
+}
+
+/** 相册概况 */
+export interface AlbumSummary {
+  id: string
+  personal: boolean
+  count: number
+  /** 表情文件的总大小（字节），共用的文件分别计算 */
+  size: number
+}
+
+/** 新增表情的结果：成功时返回新记录和为腾出空间移除的表情，重复时返回已有的表情 */
+export type AddResult =
+  | { record: StickerRecord, evicted: StickerRecord[] }
+  | { duplicate: DuplicateMatch }
+
+const logger = new Logger('sticker-convert')
+
+/**
+ * 个人相册的标识
+ */
+export function personalAlbumId(platform: string, userId: string): string {
+  return `personal:${platform}:${userId}`
+}
+
+export function isPersonalAlbum(albumId: string): boolean {
+  return albumId.startsWith('personal:')
+}
+
+/**
+ * 计算图片的感知哈希，无法解码时返回空字符串
+ */
+export async function computePhash(buffer: Buffer, mime: string): Promise<string> {
+  try {
+    // 哈希只用到第一帧
+    return dHash(await decodeImage(buffer, mime, { maxFrames: 1 }))
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * 表情相册服务：相册记录的增删查，以及文件、统计、回收站和操作日志的维护
+ *
+ * 其他插件可以通过 `ctx.stickerAlbum` 读取和添加表情，并监听 `sticker-album/*` 事件
+ */
+export class StickerAlbumService extends Service {
+  /** 各平台提取表情和发送文件的方式，其他插件可以注册适配以支持新平台或替换内置实现 */
+  public readonly platforms = new PlatformRegistry([oneBotAdapter, telegramAdapter, discordAdapter, kookAdapter])
+
+  constructor(
+    ctx: Context,
+    private options: AlbumOptions,
+    public readonly blobs: BlobStore,
+    public readonly stats: UsageStats,
+    public readonly audit: AuditLog,
+  ) {
+    super(ctx, 'stickerAlbum', true)
+
+    ctx.model.extend('sticker_archive', {
+      id: 'unsigned',
+      channelId: 'string',
+      seq: 'unsigned',
+      md5: 'string',
+      phash: 'string',
+      ext: 'string',
+      mime: 'string',
+      size: 'unsigned',
+      isGif: 'boolean',
+      width: 'unsigned',
+      height: 'unsigned',
+      frameCount: 'unsigned',
+      fileName: 'string',
+      filePath: 'string',
+      uploaderId: 'string',
+      sourceMessageId: 'string',
+      name: 'string',
+      tags: 'list',
+      pinned: 'boolean',
+      sendCount: 'unsigned',
+      lastSentAt: 'timestamp',
+      createdAt: 'timestamp',
+    }, {
+      primary: 'id',
+      autoInc: true,
+    })
+
+    ctx.model.extend('sticker_recycle', {
+      id: 'unsigned',
+      channelId: 'string',
+      record: 'json',
+      triggers: 'json',
+      reason: 'string',
+      operatorId: 'string',
+      deletedAt: 'timestamp',
+    }, {
+      primary: 'id',
+      autoInc: true,
+    })
+
+    ctx.model.extend('sticker_album_seq', {
+      albumId: 'string',
+      lastSeq: 'unsigned',
+    }, {
+      primary: 'albumId',
+    })
+  }
+
+  /** 各相册正在进行的编号分配 */
+  private seqQueues = new Map<string, Promise<number>>()
+
+  private debug(message: string, data?: any) {
+    if (this.options.debug) {
+      logger.info(`[DEBUG] ${message}`, data ? JSON.stringify(data, null, 2) : '')
+    }
+  }
+
+  /**
+   * 所有存有表情的相册（按表情数量倒序）
+   */
+  async albums(): Promise<AlbumSummary[]> {
+    const rows = await this.ctx.database
+      .select('sticker_archive')
+      .groupBy('channelId', {
+        count: row => $.count(row.id),
+        size: row => $.sum(row.size),
+      })
+      .execute()
+    return rows
+      .map(({ channelId, count, size }) => ({ id: channelId, personal: isPersonalAlbum(channelId), count, size }))
+      .sort((a, b) => b.count - a.count)
+  }
+
+  /**
+   * 获取相册全部表情（置顶的在前，其余按转存时间倒序）
+   */
+  async list(albumId: string): Promise<StickerRecord[]> {
+    return await this.ctx.database
+      .select('sticker_archive')
+      .where({ channelId: albumId })
+      .orderBy('pinned', 'desc')
+      .orderBy('createdAt', 'desc')
+      .execute()
+  }
+
+  /**
+   * 按编号或名称查找表情
+   */
+  async get(albumId: string, key: string): Promise<StickerRecord | undefined> {
+    const value = key.trim()
+    const [record] = /^\d+$/.test(value)
+      ? await this.ctx.database.get('sticker_archive', { channelId: albumId, seq: +value })
+      : await this.ctx.database.get('sticker_archive', { channelId: albumId, name: value })
+    return record
+  }
+
+  /**
+   * 按名称、标签（包含关键词）或上传者 ID 搜索表情
+   */
+  async search(albumId: string, keyword: string): Promise<StickerRecord[]> {
+    const query = keyword.trim().toLowerCase()
+    return (await this.list(albumId)).filter((record) => {
+      if (record.name?.toLowerCase().includes(query)) return true
+      if (record.tags?.some(tag => tag.toLowerCase().includes(query))) return true
+      return record.uploaderId === keyword.trim()
+    })
+  }
+
+  /**
+   * 读取表情文件
+   */
+  async getBuffer(record: StickerRecord): Promise<Buffer> {
+    if (!existsSync(record.filePath)) {
+      throw new Error('文件不存在，可能已被删除')
+    }
+    return await readFile(record.filePath)
+  }
+
+  /**
+   * 分配相册的下一个编号，已分配的编号（包括已删除和回收站中的表情）不会再次使用
+   */
+  nextSeq(albumId: string): Promise<number> {
+    // 同一相册的分配依次进行，同时转存的表情不会拿到相同的编号
+    const task = (this.seqQueues.get(albumId) || Promise.resolve(0))
+      .catch(() => 0)
+      .then(() => this.allocateSeq(albumId))
+    this.seqQueues.set(albumId, task)
+    task.catch(() => {}).then(() => {
+      if (this.seqQueues.get(albumId) === task) this.seqQueues.delete(albumId)
+    })
+    return task
+  }
+
+  private async allocateSeq(albumId: string): Promise<number> {
+    const [counter] = await this.ctx.database.get('sticker_album_seq', { albumId })
+    if (counter) {
+      await this.ctx.database.set('sticker_album_seq', { albumId }, row => ({ lastSeq: $.add(row.lastSeq, 1) }))
+      return counter.lastSeq + 1
+    }
+
+    // 首次分配时从相册和回收站中已用的最大编号开始
+    const records = await this.ctx.database.get('sticker_archive', { channelId: albumId }, ['seq'])
+    const recycled = await this.ctx.database.get('sticker_recycle', { channelId: albumId }, ['record'])
+    const used = [...records.map(record => record.seq), ...recycled.map(item => item.record.seq)]
+    const seq = used.reduce((max, value) => Math.max(max, value || 0), 0) + 1
+    await this.ctx.database.create('sticker_album_seq', { albumId, lastSeq: seq })
+    return seq
+  }
+
+  maxSize(albumId: string): number {
+    return isPersonalAlbum(albumId) ? this.options.personalAlbumMaxSize : this.options.albumMaxSize
+  }
+
+  /**
+   * 为缺少感知哈希的记录补充计算并保存
+   */
+  async ensurePhash(records: StickerRecord[]): Promise<StickerRecord[]> {
+    for (const record of records) {
+      if (record.phash || !existsSync(record.filePath)) continue
+      try {
+        record.phash = await computePhash(await readFile(record.filePath), record.mime)
+        if (record.phash) {
+          await this.ctx.database.set('sticker_archive', { id: record.id }, { phash: record.phash })
+        }
+      } catch (error) {
+        // 文件可能在检查后被删除，跳过该表情，不影响其他表情
+        logger.warn(`计算感知哈希失败: ${record.filePath}`, error)
+      }
+    }
+    return records
+  }
+
+  /**
+   * 查找相册中相同或相似的表情（不传 phash 时仅按 MD5 判断）
+   */
+  async findDuplicate(albumId: string, md5: string, phash?: string): Promise<DuplicateMatch | undefined> {
+    const [existing] = await this.ctx.database.get('sticker_archive', { channelId: albumId, md5 })
+    if (existing) {
+      return { record: existing, distance: 0 }
+    }
+    if (!phash || !this.options.duplicateThreshold) return
+
+    let best: DuplicateMatch | undefined
+    for (const record of await this.ensurePhash(await this.list(albumId))) {
+      if (!record.phash) continue
+      const distance = hammingDistance(phash, record.phash)
+      if (distance < this.options.duplicateThreshold && (!best || distance < best.distance)) {
+        best = { record, distance }
+      }
+    }
+    return best
+  }
+
+  /**
+   * 统计给定记录引用的文件占用的空间（相同内容只计算一次）
+   */
+  storageUsage(records: StickerRecord[]): number {
+    const sizes = new Map<string, number>()
+    for (const record of records) {
+      sizes.set(record.md5, record.size)
+    }
+    let usage = 0
+    for (const size of sizes.values()) usage += size
+    return usage
+  }
+
+  /**
+   * 为新增表情腾出空间：按配置的策略移除超出数量、相册空间或全局空间上限的表情，返回被移除的记录
+   */
+  async makeRoom(albumId: string, incoming: { md5: string, size: number }): Promise<StickerRecord[]> {
+    const { evictionPolicy, albumQuotaMB, globalQuotaMB } = this.options
+    const records = await this.list(albumId)
+    const evicted = planAlbumEviction(records, evictionPolicy, incoming.size, this.maxSize(albumId), albumQuotaMB * 1024 * 1024)
+    // 为满足全局空间上限移除的表情直接彻底删除，移入回收站不会释放空间
+    const permanent = new Set<StickerRecord>()
+    const purged: RecycledSticker[] = []
+
+    if (globalQuotaMB) {
+      const maxBytes = globalQuotaMB * 1024 * 1024
+      const evictedIds = new Set(evicted.map(record => record.id))
+      // 不移除与新增表情共用文件的记录，否则文件可能在复制过程中被删除，该文件的空间按新增表情计算
+      const remaining = (await this.ctx.database.get('sticker_archive', {}))
+        .filter(record => !evictedIds.has(record.id) && record.md5 !== incoming.md5)
+      // 回收站中的表情仍占用文件，空间不足时先彻底删除最早移入回收站的表情
+      const held: { record: StickerRecord, item?: RecycledSticker }[] = (await this.ctx.database.get('sticker_recycle', {}))
+        .filter(item => item.record.md5 !== incoming.md5)
+        .sort((a, b) => new Date(a.deletedAt).getTime() - new Date(b.deletedAt).getTime())
+        .map(item => ({ record: item.record, item }))
+      // 按相册上限移除的表情同样会移入回收站，视为最后移入的表情
+      if (this.options.recycleRetentionDays) {
+        held.push(...evicted.filter(record => record.md5 !== incoming.md5).map(record => ({ record })))
+      }
+      const usage = () => this.storageUsage([...remaining, ...held.map(({ record }) => record)])
+      while (held.length && usage() + incoming.size > maxBytes) {
+        const { record, item } = held.shift()!
+        if (item) purged.push(item)
+        else permanent.add(record)
+      }
+      const globalEvicted = planGlobalEviction(remaining, evictionPolicy, usage(), incoming.size, maxBytes)
+      globalEvicted.forEach(record => permanent.add(record))
+      evicted.push(...globalEvicted)
+    }
+
+    if (evicted.length || purged.length) {
+      this.debug('相册容量检查', {
+        album: albumId,
+        policy: evictionPolicy,
+        evicted: evicted.map(record => `${record.channelId}#${record.seq}`),
+        purged: purged.length,
+      })
+    }
+
+    for (const item of purged) {
+      try {
+        await this.purge(item)
+      } catch (error) {
+        logger.warn('清理回收站失败:', error)
+      }
+    }
+    for (const record of evicted) {
+      try {
+        await this.delete(record, 'evict', '', permanent.has(record))
+      } catch (error) {
+        logger.warn('清理旧表情失败:', error)
+      }
+    }
+    return evicted
+  }
+
+  /**
+   * 将图片添加到相册：检查重复，必要时按策略腾出空间，保存文件并写入操作日志
+   */
+  async add(albumId: string, input: StickerInput, options: AddOptions = {}): Promise<AddResult> {
+    await this.assertName(albumId, input.name)
+    // 以文件内容为准，不是图片时直接报错
+    const { mime, ext, width, height, frameCount } = sniffImage(input.buffer)
+    const md5 = createHash('md5').update(input.buffer).digest('hex')
+    const phash = input.phash ?? await computePhash(input.buffer, mime)
+
+    const duplicate = await this.findDuplicate(albumId, md5, options.exact ? undefined : phash)
+    if (duplicate) {
+      this.debug('表情已存在', { existingId: duplicate.record.id, distance: duplicate.distance })
+      return { duplicate }
+    }
+
+    const evicted = await this.makeRoom(albumId, { md5, size: input.buffer.length })
+
+    // 相同内容复用已有文件
+    const filePath = await this.blobs.acquire(input.buffer, md5, ext, mime)
+    const fileName = `${new Date().toISOString().split('T')[0]}-${md5}.${ext}`
+    this.debug('文件保存完成', { filePath, fileName })
+
+    const record = await this.ctx.database.create('sticker_archive', {
+      channelId: albumId,
+      seq: await this.nextSeq(albumId),
+      md5,
+      phash,
+      ext,
+      mime,
+      size: input.buffer.length,
+      isGif: mime === 'image/gif',
+      width,
+      height,
+      frameCount,
+      fileName,
+      filePath,
+      uploaderId: input.uploaderId,
+      sourceMessageId: input.sourceMessageId || '',
+      name: input.name?.trim() || '',
+      tags: input.tags || [],
+      pinned: input.pinned || false,
+      createdAt: input.createdAt || new Date(),
+    })
+    await this.log('save', record, options.operatorId ?? input.uploaderId, options.note)
+    this.ctx.emit('sticker-album/added', record)
+    return { record, evicted }
+  }
+
+  /**
+   * 检查名称能否在相册中使用：不能被选择语法误认，也不能与其他表情重名，不能使用时返回原因
+   */
+  async checkName(albumId: string, name: string, exceptId?: number): Promise<string | undefined> {
+    const error = checkNameSyntax(name)
+    if (error) return error
+    const [existing] = await this.ctx.database.get('sticker_archive', { channelId: albumId, name: name.trim() })
+    if (existing && existing.id !== exceptId) {
+      return `名称 "${name.trim()}" 已被表情 ${existing.seq} 使用`
+    }
+  }
+
+  private async assertName(albumId: string, name?: string, exceptId?: number) {
+    if (!name?.trim()) return
+    const error = await this.checkName(albumId, name, exceptId)
+    if (error) throw new Error(error)
+  }
+
+  /**
+   * 复制或恢复到相册时沿用原名称，名称已被占用时不设置名称
+   */
+  private async availableName(albumId: string, name?: string): Promise<string> {
+    return name && !await this.checkName(albumId, name) ? name : ''
+  }
+
+  /**
+   * 修改表情的名称、标签等字段，返回修改后的记录（不检查置顶数量，置顶请使用 pin）
+   */
+  async update(record: StickerRecord, fields: StickerUpdate, operatorId: string = ''): Promise<StickerRecord> {
+    await this.assertName(record.channelId, fields.name, record.id)
+    await this.ctx.database.set('sticker_archive', { id: record.id }, fields)
+    const updated = { ...record, ...fields }
+    this.ctx.emit('sticker-album/updated', updated, fields, operatorId)
+    return updated
+  }
+
+  /**
+   * 置顶或取消置顶同一相册中的表情，超出置顶数量上限时抛出错误
+   */
+  async pin(records: StickerRecord[], pinned: boolean, operatorId: string = ''): Promise<StickerRecord[]> {
+    const targets = records.filter(record => !!record.pinned !== pinned)
+    if (pinned && targets.length) {
+      const { maxPinned } = this.options
+      const count = await this.ctx.database.select('sticker_archive', { channelId: targets[0].channelId, pinned: true })
+        .execute(row => $.count(row.id))
+      if (count + targets.length > maxPinned) {
+        throw new Error(`每个相册最多置顶 ${maxPinned} 个表情（已置顶 ${count} 个），请先取消其他表情的置顶`)
+      }
+    }
+    const updated: StickerRecord[] = []
+    for (const record of targets) {
+      updated.push(await this.update(record, { pinned }, operatorId))
+    }
+    return updated
+  }
+
+  /**
+   * 合并同一相册中重复的表情：触发词和发送记录转到保留的表情上，名称、标签、置顶和发送次数合并后，
+   * 其余表情移入回收站，返回合并后的记录
+   */
+  async merge(keep: StickerRecord, others: StickerRecord[], operatorId: string = ''): Promise<StickerRecord> {
+    const tags = new Set(keep.tags || [])
+    for (const other of others) {
+      other.tags?.forEach(tag => tags.add(tag))
+      await this.ctx.database.set('sticker_trigger', { stickerId: other.id }, { stickerId: keep.id })
+      await this.stats.transfer(other.id, keep.id)
+      await this.delete(other, 'merge', operatorId)
+    }
+    // 其余表情已删除，沿用它们的名称不会重名
+    return await this.update(keep, {
+      tags: [...tags],
+      name: keep.name || others.find(other => other.name)?.name || '',
+      pinned: keep.pinned || others.some(other => other.pinned),
+      sendCount: keep.sendCount + others.reduce((sum, other) => sum + (other.sendCount || 0), 0),
+    }, operatorId)
+  }
+
+  /**
+   * 在其他相册中新建一条共用同一文件的记录
+   */
+  async copy(record: StickerRecord, targetId: string, options: CopyOptions): Promise<AddResult> {
+    const [phash] = (await this.ensurePhash([record])).map(item => item.phash)
+    const duplicate = await this.findDuplicate(targetId, record.md5, phash)
+    if (duplicate) {
+      return { duplicate }
+    }
+
+    const evicted = options.evict === false ? [] : await this.makeRoom(targetId, record)
+    const { id, ...data } = record
+    const created = await this.ctx.database.create('sticker_archive', {
+      ...data,
+      channelId: targetId,
+      seq: await this.nextSeq(targetId),
+      name: await this.availableName(targetId, record.name),
+      uploaderId: options.uploaderId ?? options.operatorId,
+      pinned: false,
+      sendCount: 0,
+      lastSentAt: null,
+      createdAt: new Date(),
+    })
+    await this.blobs.retain(record.md5)
+    await this.log('save', created, options.operatorId, options.note)
+    this.ctx.emit('sticker-album/added', created)
+    return { record: created, evicted }
+  }
+
+  /**
+   * 从相册中删除表情：移入回收站（未启用回收站或 permanent 为 true 时直接删除），并删除绑定的触发词
+   */
+  async delete(record: StickerRecord, reason: RecycleReason = 'delete', operatorId: string = '', permanent = false): Promise<void> {
+    await this.log(reason === 'merge' ? 'delete' : reason, record, operatorId, reason === 'merge' ? '合并重复' : '')
+
+    if (permanent || !this.options.recycleRetentionDays) {
+      await this.destroy(record)
+    } else {
+      // 保留文件引用和发送记录，以便恢复
+      const triggers = await this.ctx.database.get('sticker_trigger', { stickerId: record.id })
+      await this.ctx.database.create('sticker_recycle', {
+        channelId: record.channelId,
+        record,
+        triggers: triggers.map(({ phrase, mode, creatorId }) => ({ phrase, mode, creatorId })),
+        reason,
+        operatorId,
+        deletedAt: new Date(),
+      })
+      await this.ctx.database.remove('sticker_archive', { id: record.id })
+      await this.ctx.database.remove('sticker_trigger', { stickerId: record.id })
+    }
+
+    if (reason === 'evict') {
+      this.ctx.emit('sticker-album/evicted', record)
+    } else {
+      this.ctx.emit('sticker-album/deleted', record, reason, operatorId)
+    }
+  }
+
+  /**
+   * 彻底删除表情，不经过回收站（移动到其他相册、修复损坏的记录时使用）
+   */
+  async remove(record: StickerRecord, reason: 'move' | 'repair', operatorId: string, detail: string = ''): Promise<void> {
+    await this.log(reason, record, operatorId, detail)
+    await this.destroy(record)
+    this.ctx.emit('sticker-album/deleted', record, reason, operatorId)
+  }
+
+  /**
+   * 删除记录及其触发词和发送记录，并释放对文件的引用
+   */
+  private async destroy(record: StickerRecord): Promise<void> {
+    await this.ctx.database.remove('sticker_archive', { id: record.id })
+    await this.ctx.database.remove('sticker_trigger', { stickerId: record.id })
+    await this.stats.forget({ stickerId: record.id })
+    await this.blobs.release(record.md5)
+  }
+
+  /**
+   * 回收站中的表情（按删除时间倒序）
+   */
+  async listRecycled(albumId: string): Promise<RecycledSticker[]> {
+    return await this.ctx.database
+      .select('sticker_recycle')
+      .where({ channelId: albumId })
+      .orderBy('deletedAt', 'desc')
+      .execute()
+  }
+
+  /**
+   * 从回收站恢复表情，尽量沿用原编号，并恢复未被其他表情占用的触发词
+   */
+  async restore(item: RecycledSticker, operatorId: string): Promise<AddResult> {
+    const data = item.record
+    const duplicate = await this.findDuplicate(item.channelId, data.md5, data.phash)
+    if (duplicate) {
+      return { duplicate }
+    }
+
+    const evicted = await this.makeRoom(item.channelId, data)
+    const records = await this.list(item.channelId)
+    const seq = records.some(record => record.seq === data.seq) ? await this.nextSeq(item.channelId) : data.seq
+    const pinnedCount = records.filter(record => record.pinned).length
+    const { id, ...rest } = data
+    const record = await this.ctx.database.create('sticker_archive', {
+      ...rest,
+      seq,
+      name: await this.availableName(item.channelId, data.name),
+      pinned: data.pinned && pinnedCount < this.options.maxPinned,
+      createdAt: new Date(data.createdAt),
+      lastSentAt: data.lastSentAt ? new Date(data.lastSentAt) : null,
+    })
+    await this.stats.transfer(id, record.id)
+
+    // 文件引用随记录转回相册，无需重新计数
+    await this.ctx.database.remove('sticker_recycle', { id: item.id })
+    await this.log('restore', record, operatorId)
+    this.ctx.emit('sticker-album/added', record)
+
+    const existing = new Set((await this.listTriggers(item.channelId)).map(trigger => trigger.phrase))
+    for (const { phrase, mode, creatorId } of item.triggers || []) {
+      if (existing.has(phrase)) continue
+      await this.createTrigger(record, phrase, mode, creatorId, operatorId)
+    }
+    return { record, evicted }
+  }
+
+  /**
+   * 按实际文件更新表情的类型、大小和路径（检查修复时使用），回收站中的表情需传入回收站编号
+   */
+  async repair(record: StickerRecord, fields: StickerFileInfo, operatorId: string = '', recycleId?: number): Promise<StickerRecord> {
+    const updated = { ...record, ...fields }
+    if (recycleId) {
+      await this.ctx.database.set('sticker_recycle', { id: recycleId }, { record: updated })
+    } else {
+      await this.ctx.database.set('sticker_archive', { id: record.id }, fields)
+    }
+    await this.blobs.describe(record.md5, fields)
+    await this.log('repair', record, operatorId, `更新记录：${record.mime} ${formatBytes(record.size)} → ${fields.mime} ${formatBytes(fields.size)}`)
+    if (!recycleId) {
+      this.ctx.emit('sticker-album/updated', updated, fields, operatorId)
+    }
+    return updated
+  }
+
+  /**
+   * 相册中的触发词
+   */
+  async listTriggers(albumId: string): Promise<StickerTrigger[]> {
+    return await this.ctx.database.get('sticker_trigger', { channelId: albumId })
+  }
+
+  /**
+   * 为表情绑定触发词，相册中已有相同的触发词时返回空，正则不安全时抛出错误
+   */
+  async bindTrigger(record: StickerRecord, phrase: string, mode: TriggerMode, operatorId: string = ''): Promise<StickerTrigger | undefined> {
+    if (mode === 'regex') {
+      const error = checkRegex(phrase)
+      if (error) throw new Error(error)
+    }
+    const [existing] = await this.ctx.database.get('sticker_trigger', { channelId: record.channelId, phrase, mode })
+    if (existing) return
+    const trigger = await this.createTrigger(record, phrase, mode, operatorId, operatorId)
+    await this.log('bind', record, operatorId, phrase)
+    return trigger
+  }
+
+  private async createTrigger(record: StickerRecord, phrase: string, mode: TriggerMode, creatorId: string, operatorId: string) {
+    const trigger = await this.ctx.database.create('sticker_trigger', {
+      channelId: record.channelId,
+      stickerId: record.id,
+      phrase,
+      mode,
+      creatorId,
+      createdAt: new Date(),
+    })
+    this.ctx.emit('sticker-album/trigger-bound', trigger, operatorId)
+    return trigger
+  }
+
+  /**
+   * 解绑相册中的触发词，返回被解绑的触发词（同一触发词可能以不同匹配方式绑定了多次）
+   */
+  async unbindTrigger(albumId: string, phrase: string, operatorId: string = ''): Promise<StickerTrigger[]> {
+    const triggers = await this.ctx.database.get('sticker_trigger', { channelId: albumId, phrase })
+    if (!triggers.length) return []
+    await this.ctx.database.remove('sticker_trigger', { id: triggers.map(trigger => trigger.id) })
+    const records = await this.ctx.database.get('sticker_archive', { id: triggers.map(trigger => trigger.stickerId) })
+    for (const trigger of triggers) {
+      const record = records.find(record => record.id === trigger.stickerId)
+      await this.audit.write({ channelId: albumId, action: 'unbind', operatorId, md5: record?.md5 || '', seq: record?.seq || 0, detail: phrase })
+      this.ctx.emit('sticker-album/trigger-unbound', trigger, operatorId)
+    }
+    return triggers
+  }
+
+  /**
+   * 彻底删除回收站中的表情
+   */
+  async purge(item: Pick<RecycledSticker, 'id' | 'record'>): Promise<void> {
+    await this.ctx.database.remove('sticker_recycle', { id: item.id })
+    await this.stats.forget({ stickerId: item.record.id })
+    await this.blobs.release(item.record.md5)
+  }
+
+  /**
+   * 彻底删除超过保留期限的回收站表情
+   */
+  async purgeRecycleBin(): Promise<number> {
+    const expiry = new Date(Date.now() - this.options.recycleRetentionDays * 24 * 60 * 60 * 1000)
+    const expired = await this.ctx.database.get('sticker_recycle', { deletedAt: { $lte: expiry } })
+    for (const item of expired) {
+      await this.purge(item)
+    }
+    if (expired.length) {
+      this.debug('清理回收站', { purged: expired.length })
+    }
+    return expired.length
+  }
+
+  /**
+   * 写入一条涉及表情的操作日志
+   */
+  async log(action: AuditAction, record: StickerRecord, operatorId: string, detail: string = ''): Promise<void> {
+    await this.audit.write({ channelId: record.channelId, action, operatorId, md5: record.md5, seq: record.seq, detail })
+  }
+}
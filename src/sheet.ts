@@ -0,0 +1,163 @@
+import { DecodedImage } from './codec'
+import { resize } from './transform'
+
+/** 缩略图网格中的单个格子 */
+export interface SheetCell {
+  /** 缩略图（仅使用第一帧） */
+  thumbnail: DecodedImage
+  /** 左下角标签，如编号 */
+  label: string
+  /** 右下角说明，如文件大小 */
+  caption?: string
+  /** 左上角角标，如 GIF */
+  badge?: string
+}
+
+export interface SheetOptions {
+  columns: number
+  /** 缩略图区域边长 */
+  cellSize: number
+}
+
+type RGBA = [number, number, number, number]
+
+// 5x7 点阵字体，仅包含网格中用到的字符
+const GLYPHS: Record<string, string[]> = {
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11110', '00001', '00001', '01110', '00001', '00001', '11110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  'B': ['11110', '10001', '10001', '11110', '10001', '10001', '11110'],
+  'F': ['11111', '10000', '10000', '11110', '10000', '10000', '10000'],
+  'G': ['01110', '10001', '10000', '10111', '10001', '10001', '01111'],
+  'I': ['01110', '00100', '00100', '00100', '00100', '00100', '01110'],
+  'K': ['10001', '10010', '10100', '11000', '10100', '10010', '10001'],
+  'M': ['10001', '11011', '10101', '10101', '10001', '10001', '10001'],
+  '.': ['00000', '00000', '00000', '00000', '00000', '01100', '01100'],
+  '#': ['01010', '01010', '11111', '01010', '11111', '01010', '01010'],
+  '%': ['11001', '11010', '00010', '00100', '01000', '01011', '10011'],
+  ' ': ['00000', '00000', '00000', '00000', '00000', '00000', '00000'],
+}
+
+const FONT_SCALE = 2
+const GLYPH_WIDTH = 5 * FONT_SCALE
+const GLYPH_HEIGHT = 7 * FONT_SCALE
+const GLYPH_SPACING = FONT_SCALE
+const PADDING = 8
+const TEXT_HEIGHT = GLYPH_HEIGHT + 6
+
+const BACKGROUND: RGBA = [255, 255, 255, 255]
+const CELL_BACKGROUND: RGBA = [240, 240, 240, 255]
+const TEXT_COLOR: RGBA = [60, 60, 60, 255]
+const BADGE_COLOR: RGBA = [230, 70, 70, 255]
+const BADGE_TEXT: RGBA = [255, 255, 255, 255]
+
+/**
+ * 生成缩略图：取第一帧，等比缩放到不超过 size 的范围内
+ */
+export function createThumbnail(image: DecodedImage, size: number): DecodedImage {
+  const first: DecodedImage = { ...image, frames: image.frames.slice(0, 1) }
+  const scale = Math.min(size / image.width, size / image.height, 1)
+  if (scale === 1) return first
+  return resize(first, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)))
+}
+
+export function measureText(text: string): number {
+  return text.length ? text.length * (GLYPH_WIDTH + GLYPH_SPACING) - GLYPH_SPACING : 0
+}
+
+class Canvas {
+  readonly data: Uint8Array
+
+  constructor(readonly width: number, readonly height: number, background: RGBA) {
+    this.data = new Uint8Array(width * height * 4)
+    this.fillRect(0, 0, width, height, background)
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: RGBA) {
+    for (let row = Math.max(y, 0); row < Math.min(y + h, this.height); row++) {
+      for (let col = Math.max(x, 0); col < Math.min(x + w, this.width); col++) {
+        this.data.set(color, (row * this.width + col) * 4)
+      }
+    }
+  }
+
+  /** 按 alpha 将图片合成到画布上 */
+  drawImage(image: DecodedImage, x: number, y: number) {
+    const src = image.frames[0].data
+    for (let row = 0; row < image.height; row++) {
+      for (let col = 0; col < image.width; col++) {
+        const tx = x + col
+        const ty = y + row
+        if (tx < 0 || ty < 0 || tx >= this.width || ty >= this.height) continue
+        const s = (row * image.width + col) * 4
+        const d = (ty * this.width + tx) * 4
+        const alpha = src[s + 3] / 255
+        for (let c = 0; c < 3; c++) {
+          this.data[d + c] = Math.round(src[s + c] * alpha + this.data[d + c] * (1 - alpha))
+        }
+      }
+    }
+  }
+
+  drawText(text: string, x: number, y: number, color: RGBA) {
+    let offset = x
+    for (const char of text.toUpperCase()) {
+      const glyph = GLYPHS[char] || GLYPHS[' ']
+      glyph.forEach((line, row) => {
+        for (let col = 0; col < line.length; col++) {
+          if (line[col] === '1') {
+            this.fillRect(offset + col * FONT_SCALE, y + row * FONT_SCALE, FONT_SCALE, FONT_SCALE, color)
+          }
+        }
+      })
+      offset += GLYPH_WIDTH + GLYPH_SPACING
+    }
+  }
+}
+
+/**
+ * 将多张缩略图合成为一张网格图
+ */
+export function renderContactSheet(cells: SheetCell[], options: SheetOptions): DecodedImage {
+  const { cellSize } = options
+  const columns = Math.max(1, Math.min(options.columns, cells.length))
+  const rows = Math.ceil(cells.length / columns)
+  const cellWidth = cellSize + PADDING * 2
+  const cellHeight = cellSize + PADDING * 2 + TEXT_HEIGHT
+  const canvas = new Canvas(columns * cellWidth, rows * cellHeight, BACKGROUND)
+
+  cells.forEach((cell, i) => {
+    const left = (i % columns) * cellWidth + PADDING
+    const top = Math.floor(i / columns) * cellHeight + PADDING
+
+    // 缩略图居中放置
+    canvas.fillRect(left, top, cellSize, cellSize, CELL_BACKGROUND)
+    const { thumbnail } = cell
+    canvas.drawImage(
+      thumbnail,
+      left + Math.floor((cellSize - thumbnail.width) / 2),
+      top + Math.floor((cellSize - thumbnail.height) / 2),
+    )
+
+    if (cell.badge) {
+      const badgeWidth = measureText(cell.badge) + 6
+      canvas.fillRect(left, top, badgeWidth, GLYPH_HEIGHT + 6, BADGE_COLOR)
+      canvas.drawText(cell.badge, left + 3, top + 3, BADGE_TEXT)
+    }
+
+    const textTop = top + cellSize + 4
+    canvas.drawText(cell.label, left, textTop, TEXT_COLOR)
+    if (cell.caption) {
+      canvas.drawText(cell.caption, left + cellSize - measureText(cell.caption), textTop, TEXT_COLOR)
+    }
+  })
+
+  return { width: canvas.width, height: canvas.height, frames: [{ data: canvas.data, delay: 0 }] }
+}
@@ -0,0 +1,64 @@
+// 以下依赖没有自带类型声明，仅声明插件用到的部分
+
+declare module 'gifenc' {
+  export type Palette = number[][]
+
+  export interface GIFEncoderInstance {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: {
+      palette?: Palette
+      delay?: number
+      transparent?: boolean
+      transparentIndex?: number
+      repeat?: number
+      dispose?: number
+    }): void
+    finish(): void
+    bytes(): Uint8Array
+  }
+
+  export function GIFEncoder(): GIFEncoderInstance
+  export function quantize(rgba: Uint8Array, maxColors: number, options?: {
+    format?: 'rgb565' | 'rgb444' | 'rgba4444'
+    oneBitAlpha?: boolean | number
+  }): Palette
+  export function applyPalette(rgba: Uint8Array, palette: Palette, format?: 'rgb565' | 'rgb444' | 'rgba4444'): Uint8Array
+}
+
+declare module 'node-webpmux' {
+  export interface AnimationFrame {
+    x: number
+    y: number
+    width: number
+    height: number
+    delay: number
+    blend: boolean
+    dispose: boolean
+  }
+
+  export interface FrameOptions {
+    img?: Image
+    buffer?: Buffer
+    delay?: number
+    blend?: boolean
+    dispose?: boolean
+  }
+
+  export class Image {
+    readonly width: number
+    readonly height: number
+    readonly hasAnim: boolean
+    readonly frames: AnimationFrame[]
+    load(source: string | Buffer): Promise<void>
+    save(path: null, options?: object): Promise<Buffer>
+    getImageData(): Promise<Uint8Array>
+    setImageData(buffer: Buffer, options?: { width?: number, height?: number, quality?: number, lossless?: number }): Promise<number>
+    getFrameData(index: number): Promise<Uint8Array>
+    static initLib(): Promise<void>
+    static getEmptyImage(extended?: boolean): Promise<Image>
+    static generateFrame(options: FrameOptions): Promise<object>
+    static save(path: null, options: { width: number, height: number, frames: object[], loops?: number }): Promise<Buffer>
+  }
+
+  const WebP: { Image: typeof Image }
+  export default WebP
+}
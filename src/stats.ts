@@ -0,0 +1,160 @@
+import { $, Context } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    sticker_usage: StickerUsage
+  }
+}
+
+/** 表情的发送途径 */
+export type SendSource = 'command' | 'trigger'
+
+/** 一次表情发送记录 */
+export interface StickerUsage {
+  id: number
+  stickerId: number
+  /** 表情所在的相册 */
+  albumId: string
+  /** 发送时所在的频道 */
+  channelId: string
+  /** 触发发送的用户 */
+  userId: string
+  source: SendSource
+  createdAt: Date
+}
+
+/** 统计周期 */
+export type StatsPeriod = 'day' | 'week' | 'month' | 'all'
+
+const periodAliases: Record<string, StatsPeriod> = {
+  今日: 'day',
+  今天: 'day',
+  day: 'day',
+  本周: 'week',
+  week: 'week',
+  本月: 'month',
+  month: 'month',
+  全部: 'all',
+  all: 'all',
+}
+
+export const periodNames: Record<StatsPeriod, string> = {
+  day: '今日',
+  week: '近 7 天',
+  month: '近 30 天',
+  all: '全部',
+}
+
+const periodDays: Record<StatsPeriod, number> = { day: 1, week: 7, month: 30, all: 0 }
+
+/**
+ * 统计周期的起始时间：今日从当天零点起算，其余为最近若干天
+ */
+function periodStart(period: StatsPeriod): Date {
+  if (period === 'day') {
+    const start = new Date()
+    start.setHours(0, 0, 0, 0)
+    return start
+  }
+  return new Date(Date.now() - periodDays[period] * 24 * 60 * 60 * 1000)
+}
+
+export function parsePeriod(input?: string): StatsPeriod | undefined {
+  return periodAliases[input?.trim().toLowerCase() || '全部']
+}
+
+/**
+ * 表情使用统计：记录每次发送，并维护相册记录上的发送次数和最近发送时间
+ */
+export class UsageStats {
+  constructor(private ctx: Context) {
+    ctx.model.extend('sticker_usage', {
+      id: 'unsigned',
+      stickerId: 'unsigned',
+      albumId: 'string',
+      channelId: 'string',
+      userId: 'string',
+      source: 'string',
+      createdAt: 'timestamp',
+    }, {
+      primary: 'id',
+      autoInc: true,
+    })
+  }
+
+  async record(sticker: { id: number, channelId: string }, channelId: string, userId: string, source: SendSource): Promise<void> {
+    const now = new Date()
+    await this.ctx.database.create('sticker_usage', {
+      stickerId: sticker.id,
+      albumId: sticker.channelId,
+      channelId,
+      userId,
+      source,
+      createdAt: now,
+    })
+    await this.ctx.database.set('sticker_archive', { id: sticker.id }, row => ({
+      sendCount: $.add(row.sendCount, 1),
+      lastSentAt: now,
+    }))
+  }
+
+  /**
+   * 统计相册内各表情在周期内的发送次数
+   */
+  async ranking(albumId: string, period: StatsPeriod): Promise<Map<number, number>> {
+    const counts = new Map<number, number>()
+    if (period === 'all') {
+      const records = await this.ctx.database.get('sticker_archive', { channelId: albumId }, ['id', 'sendCount'])
+      for (const record of records) {
+        if (record.sendCount) counts.set(record.id, record.sendCount)
+      }
+      return counts
+    }
+
+    const since = periodStart(period)
+    const rows = await this.ctx.database
+      .select('sticker_usage')
+      .where({ albumId, createdAt: { $gte: since } })
+      .groupBy('stickerId', { count: row => $.count(row.id) })
+      .execute()
+    for (const row of rows) {
+      counts.set(row.stickerId, row.count)
+    }
+    return counts
+  }
+
+  /**
+   * 统计发送最多的用户
+   */
+  async topSenders(albumId: string): Promise<Map<string, number>> {
+    const rows = await this.ctx.database
+      .select('sticker_usage')
+      .where({ albumId })
+      .groupBy('userId', { count: row => $.count(row.id) })
+      .execute()
+    return new Map(rows.map(row => [row.userId, row.count]))
+  }
+
+  /**
+   * 删除早于指定天数的发送记录（表情上的发送次数不受影响）
+   */
+  async prune(retentionDays: number): Promise<number> {
+    const expiry = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+    const result = await this.ctx.database.remove('sticker_usage', { createdAt: { $lt: expiry } })
+    return result.matched ?? 0
+  }
+
+  /**
+   * 将发送记录转到另一条表情记录上（合并重复、从回收站恢复时使用）
+   */
+  async transfer(fromId: number, toId: number): Promise<void> {
+    await this.ctx.database.set('sticker_usage', { stickerId: fromId }, { stickerId: toId })
+  }
+
+  /**
+   * 删除表情时一并删除其发送记录
+   */
+  async forget(query: { stickerId: number } | { albumId: string }): Promise<void> {
+    await this.ctx.database.remove('sticker_usage', query)
+  }
+}
@@ -0,0 +1,92 @@
+import { Context } from 'koishi'
+import { basename, resolve } from 'path'
+import { randomBytes } from 'crypto'
+import { existsSync, readdirSync, rmSync } from 'fs'
+import { mkdir, rm, writeFile } from 'fs/promises'
+
+/** 发送时使用的临时文件 */
+export interface TempFile {
+  path: string
+  /** 使用完毕，在宽限时间后删除 */
+  release(): void
+}
+
+/**
+ * 临时文件目录：每个文件单独一个子目录以保留原文件名，并跟踪到删除为止
+ */
+export class TempStore {
+  /** 尚未删除的临时文件目录，值为取消延迟删除的函数 */
+  private handles = new Map<string, () => void>()
+
+  constructor(private ctx: Context, public readonly root: string, private gracePeriod: number) {
+    // 清理上次运行（包括异常退出）遗留的文件
+    this.sweep()
+    ctx.on('dispose', () => this.sweep())
+  }
+
+  async create(buffer: Buffer, fileName: string): Promise<TempFile> {
+    const dir = resolve(this.root, `${Date.now()}-${randomBytes(4).toString('hex')}`)
+    this.handles.set(dir, undefined)
+    try {
+      await mkdir(dir, { recursive: true })
+      const path = resolve(dir, basename(fileName))
+      await writeFile(path, buffer)
+      let released = false
+      return {
+        path,
+        release: () => {
+          if (released) return
+          released = true
+          this.schedule(dir)
+        },
+      }
+    } catch (error) {
+      await this.remove(dir)
+      throw error
+    }
+  }
+
+  /**
+   * 写入临时文件并交给 callback 使用，完成后（无论成功与否）释放
+   */
+  async use<T>(buffer: Buffer, fileName: string, callback: (path: string) => Promise<T>): Promise<T> {
+    const file = await this.create(buffer, fileName)
+    try {
+      return await callback(file.path)
+    } finally {
+      file.release()
+    }
+  }
+
+  /** 当前未删除的临时文件数量 */
+  get size() {
+    return this.handles.size
+  }
+
+  private schedule(dir: string) {
+    if (!this.gracePeriod) {
+      this.remove(dir)
+      return
+    }
+    // 客户端可能在发送接口返回后才读取文件，稍后再删除
+    this.handles.set(dir, this.ctx.setTimeout(() => this.remove(dir), this.gracePeriod))
+  }
+
+  private async remove(dir: string) {
+    this.handles.get(dir)?.()
+    this.handles.delete(dir)
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+
+  /**
+   * 删除目录中的全部临时文件
+   */
+  sweep() {
+    for (const dispose of this.handles.values()) dispose?.()
+    this.handles.clear()
+    if (!existsSync(this.root)) return
+    for (const name of readdirSync(this.root)) {
+      rmSync(resolve(this.root, name), { recursive: true, force: true })
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { DecodedImage, Frame } from './codec'
+
+/** 缩放后允许的最大边长 */
+export const MAX_DIMENSION = 1024
+
+/** 浏览器会将低于 20ms 的帧间隔按 100ms 播放，加速时不低于此值 */
+const MIN_DELAY = 20
+
+function mapFrames(image: DecodedImage, width: number, height: number, map: (data: Uint8Array) => Uint8Array): DecodedImage {
+  return {
+    width,
+    height,
+    frames: image.frames.map(frame => ({ ...frame, data: map(frame.data) })),
+  }
+}
+
+/**
+ * 解析缩放参数：200（宽度，等比）、200x100（宽x高）、50%（百分比）
+ */
+export function parseSize(input: string, image: DecodedImage): { width: number, height: number } {
+  const value = input.trim().toLowerCase()
+  let width: number
+  let height: number
+
+  let match: RegExpMatchArray | null
+  if ((match = value.match(/^(\d+(?:\.\d+)?)%$/))) {
+    const ratio = +match[1] / 100
+    width = image.width * ratio
+    height = image.height * ratio
+  } else if ((match = value.match(/^(\d+)[x*×](\d+)$/))) {
+    width = +match[1]
+    height = +match[2]
+  } else if ((match = value.match(/^(\d+)$/))) {
+    width = +match[1]
+    height = image.height * width / image.width
+  } else {
+    throw new Error(`无效的尺寸 "${input}"，示例：200、200x100、50%`)
+  }
+
+  width = Math.round(width)
+  height = Math.round(height)
+  if (width < 1 || height < 1 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`尺寸需在 1-${MAX_DIMENSION} 像素之间（当前 ${width}x${height}）`)
+  }
+  return { width, height }
+}
+
+/**
+ * 双线性插值缩放
+ */
+export function resize(image: DecodedImage, width: number, height: number): DecodedImage {
+  const { width: srcW, height: srcH } = image
+  const scaleX = srcW / width
+  const scaleY = srcH / height
+
+  return mapFrames(image, width, height, (src) => {
+    const out = new Uint8Array(width * height * 4)
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), srcH - 1)
+      const y0 = Math.floor(sy)
+      const y1 = Math.min(y0 + 1, srcH - 1)
+      const fy = sy - y0
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), srcW - 1)
+        const x0 = Math.floor(sx)
+        const x1 = Math.min(x0 + 1, srcW - 1)
+        const fx = sx - x0
+        const i00 = (y0 * srcW + x0) * 4
+        const i01 = (y0 * srcW + x1) * 4
+        const i10 = (y1 * srcW + x0) * 4
+        const i11 = (y1 * srcW + x1) * 4
+        const o = (y * width + x) * 4
+        for (let c = 0; c < 4; c++) {
+          const top = src[i00 + c] * (1 - fx) + src[i01 + c] * fx
+          const bottom = src[i10 + c] * (1 - fx) + src[i11 + c] * fx
+          out[o + c] = Math.round(top * (1 - fy) + bottom * fy)
+        }
+      }
+    }
+    return out
+  })
+}
+
+/**
+ * 水平或垂直翻转
+ */
+export function flip(image: DecodedImage, direction: 'horizontal' | 'vertical'): DecodedImage {
+  const { width, height } = image
+  return mapFrames(image, width, height, (src) => {
+    const out = new Uint8Array(src.length)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const tx = direction === 'horizontal' ? width - 1 - x : x
+        const ty = direction === 'vertical' ? height - 1 - y : y
+        out.set(src.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), (ty * width + tx) * 4)
+      }
+    }
+    return out
+  })
+}
+
+/**
+ * 顺时针旋转（仅支持 90 的倍数）
+ */
+export function rotate(image: DecodedImage, angle: number): DecodedImage {
+  if (angle % 90 !== 0) {
+    throw new Error('旋转角度需为 90 的倍数')
+  }
+  const turns = ((angle / 90 % 4) + 4) % 4
+  if (turns === 0) return image
+
+  const { width, height } = image
+  const outW = turns === 2 ? width : height
+  const outH = turns === 2 ? height : width
+  return mapFrames(image, outW, outH, (src) => {
+    const out = new Uint8Array(src.length)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let tx: number, ty: number
+        if (turns === 1) {
+          tx = height - 1 - y
+          ty = x
+        } else if (turns === 2) {
+          tx = width - 1 - x
+          ty = height - 1 - y
+        } else {
+          tx = y
+          ty = width - 1 - x
+        }
+        out.set(src.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), (ty * outW + tx) * 4)
+      }
+    }
+    return out
+  })
+}
+
+/**
+ * 居中裁剪为正方形
+ */
+export function cropSquare(image: DecodedImage): DecodedImage {
+  const size = Math.min(image.width, image.height)
+  const left = Math.floor((image.width - size) / 2)
+  const top = Math.floor((image.height - size) / 2)
+  return mapFrames(image, size, size, (src) => {
+    const out = new Uint8Array(size * size * 4)
+    for (let y = 0; y < size; y++) {
+      const start = ((top + y) * image.width + left) * 4
+      out.set(src.subarray(start, start + size * 4), y * size * 4)
+    }
+    return out
+  })
+}
+
+/**
+ * 倒放
+ */
+export function reverse(image: DecodedImage): DecodedImage {
+  return { ...image, frames: [...image.frames].reverse() }
+}
+
+/**
+ * 调整播放速度（倍率大于 1 为加速）
+ */
+export function changeSpeed(image: DecodedImage, factor: number): DecodedImage {
+  if (!(factor > 0)) {
+    throw new Error('速度倍率需大于 0')
+  }
+  return {
+    ...image,
+    frames: image.frames.map<Frame>(frame => ({
+      ...frame,
+      delay: Math.max(Math.round(frame.delay / factor), MIN_DELAY),
+    })),
+  }
+}
+
+/**
+ * 截取帧范围，格式为 3-10 或 5（从 1 开始，包含两端）
+ */
+export function sliceFrames(image: DecodedImage, range: string): DecodedImage {
+  const match = range.trim().match(/^(\d+)(?:-(\d+))?$/)
+  if (!match) {
+    throw new Error(`无效的帧范围 "${range}"，示例：3-10`)
+  }
+  const start = +match[1]
+  const end = match[2] ? +match[2] : start
+  const total = image.frames.length
+  if (start < 1 || end < start || start > total) {
+    throw new Error(`帧范围无效，当前共有 ${total} 帧`)
+  }
+  return { ...image, frames: image.frames.slice(start - 1, Math.min(end, total)) }
+}
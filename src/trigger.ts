@@ -0,0 +1,65 @@
+import { StickerTrigger } from './types'
+
+/** 缓存中的触发词，正则在加载时编译一次，不必每条消息都重新编译 */
+export interface CompiledTrigger extends StickerTrigger {
+  /** 正则触发词编译后的表达式，不安全或无效时为空 */
+  pattern?: RegExp
+}
+
+/** 正则触发词的长度上限 */
+export const MAX_REGEX_LENGTH = 100
+
+const REPEAT = new Set(['*', '+', '{'])
+
+/**
+ * 检查正则触发词能否安全使用，不能时返回原因
+ *
+ * 触发词对群内每条消息同步执行，被重复的分组中再含有量词或分支（如 `(a+)+`、`(a|a)*`）
+ * 可能导致灾难性回溯，阻塞整个机器人，因此直接拒绝
+ */
+export function checkRegex(pattern: string): string | undefined {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `正则表达式过长，最多 ${MAX_REGEX_LENGTH} 个字符`
+  }
+  try {
+    new RegExp(pattern)
+  } catch (error) {
+    return `正则表达式无效: ${error.message}`
+  }
+
+  // 每层分组是否含有量词或分支
+  const groups: boolean[] = []
+  let inClass = false
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        return '正则表达式不能使用反向引用'
+      }
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const complex = groups.pop()
+      if (complex && REPEAT.has(pattern[i + 1])) {
+        return '正则表达式中不能重复含有量词或分支的分组（可能导致匹配极慢）'
+      }
+      // 内层的量词同样会使外层分组变得复杂
+      if (complex && groups.length) groups[groups.length - 1] = true
+    } else if ((REPEAT.has(char) || char === '|') && groups.length) {
+      groups[groups.length - 1] = true
+    }
+  }
+}
+
+/**
+ * 编译正则触发词，不安全或无效的正则不编译（旧版本保存的触发词可能未经检查）
+ */
+export function compileTrigger(trigger: StickerTrigger): CompiledTrigger {
+  if (trigger.mode !== 'regex' || checkRegex(trigger.phrase)) return trigger
+  return { ...trigger, pattern: new RegExp(trigger.phrase) }
+}
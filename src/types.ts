@@ -0,0 +1,105 @@
+// 数据库模型
+declare module 'koishi' {
+  interface Tables {
+    sticker_archive: StickerRecord
+    sticker_trigger: StickerTrigger
+    sticker_recycle: RecycledSticker
+    sticker_album_seq: AlbumCounter
+  }
+}
+
+/** 相册已分配的最大编号，编号只增不减，删除表情后不会重新分配 */
+export interface AlbumCounter {
+  albumId: string
+  lastSeq: number
+}
+
+export interface StickerRecord {
+  id: number
+  channelId: string
+  /** 相册内的固定编号，转存时分配，删除其他表情后不会变化 */
+  seq: number
+  md5: string
+  /** 第一帧的感知哈希（dHash），用于相似表情检测 */
+  phash: string
+  ext: string
+  mime: string
+  size: number
+  isGif: boolean
+  /** 图片尺寸，无法解析时为 0 */
+  width: number
+  height: number
+  /** 帧数，静态图为 1，无法确定时（如视频贴纸）为 0 */
+  frameCount: number
+  fileName: string
+  filePath: string
+  uploaderId: string
+  sourceMessageId: string
+  /** 表情名称 */
+  name: string
+  /** 表情标签 */
+  tags: string[]
+  /** 是否置顶（置顶的表情排在最前，且不会因容量不足被移除） */
+  pinned: boolean
+  /** 被发送的次数 */
+  sendCount: number
+  /** 最近一次被发送的时间 */
+  lastSentAt: Date
+  createdAt: Date
+}
+
+/** 相册（群相册或个人相册） */
+export interface Album {
+  /** 相册标识，对应 sticker_archive 中的 channelId 字段 */
+  id: string
+  personal: boolean
+}
+
+export type TriggerMode = 'exact' | 'contains' | 'regex'
+
+export interface StickerTrigger {
+  id: number
+  channelId: string
+  /** 绑定的表情记录 ID */
+  stickerId: number
+  phrase: string
+  mode: TriggerMode
+  creatorId: string
+  createdAt: Date
+}
+
+/** 表情进入回收站的原因 */
+export type RecycleReason = 'delete' | 'clear' | 'evict' | 'merge'
+
+/** 回收站中的表情，保留删除前的记录和触发词以便恢复 */
+export interface RecycledSticker {
+  id: number
+  channelId: string
+  record: StickerRecord
+  triggers: Pick<StickerTrigger, 'phrase' | 'mode' | 'creatorId'>[]
+  reason: RecycleReason
+  /** 执行删除的用户，容量清理时为空 */
+  operatorId: string
+  deletedAt: Date
+}
+
+/** 新增到相册的表情数据 */
+export interface StickerInput {
+  /** 图片内容，类型按内容识别 */
+  buffer: Buffer
+  uploaderId: string
+  sourceMessageId?: string
+  name?: string
+  tags?: string[]
+  /** 已计算好的感知哈希，未提供时自动计算 */
+  phash?: string
+  pinned?: boolean
+  /** 导入时保留原转存时间 */
+  createdAt?: Date
+}
+
+/** 重复检测结果，distance 为 0 表示内容完全相同 */
+export interface DuplicateMatch {
+  record: StickerRecord
+  distance: number
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import { deepStrictEqual, strictEqual, throws } from 'node:assert'
+import { strToU8, zipSync } from 'fflate'
+import { ManifestEntry, packAlbum, unpackAlbum, UnpackLimits } from '../src/archive'
+
+const limits: UnpackLimits = { maxFileSize: 1024, maxTotalSize: 4096, maxEntries: 10 }
+
+function entry(fields: Partial<ManifestEntry> = {}): ManifestEntry {
+  return {
+    file: 'stickers/1.png',
+    seq: 1,
+    md5: '0123456789abcdef0123456789abcdef',
+    mime: 'image/png',
+    ext: 'png',
+    size: 4,
+    isGif: false,
+    name: '',
+    tags: [],
+    pinned: false,
+    uploaderId: '10',
+    createdAt: new Date(2024, 0, 1).toISOString(),
+    ...fields,
+  }
+}
+
+function zipManifest(manifest: unknown, files: Record<string, Uint8Array> = {}): Buffer {
+  return Buffer.from(zipSync({ 'manifest.json': strToU8(JSON.stringify(manifest)), ...files }))
+}
+
+describe('unpackAlbum', () => {
+  it('reads archives created by packAlbum', () => {
+    const data = new Uint8Array([1, 2, 3, 4])
+    const { manifest, files } = unpackAlbum(packAlbum('group', [{ entry: entry(), data }]), limits)
+    strictEqual(manifest.albumId, 'group')
+    deepStrictEqual(manifest.entries, [entry()])
+    deepStrictEqual(files['stickers/1.png'], data)
+  })
+
+  it('rejects files that are not album exports', () => {
+    throws(() => unpackAlbum(Buffer.from('not a zip'), limits), /不是有效的 zip/)
+    throws(() => unpackAlbum(Buffer.from(zipSync({ 'a.txt': strToU8('a') })), limits), /缺少 manifest.json/)
+    throws(() => unpackAlbum(Buffer.from(zipSync({ 'manifest.json': strToU8('{') })), limits), /格式错误/)
+  })
+
+  it('rejects newer versions and invalid entries', () => {
+    throws(() => unpackAlbum(zipManifest({ version: 99, entries: [] }), limits), /版本/)
+    throws(() => unpackAlbum(zipManifest({ version: 1 }), limits), /缺少表情列表/)
+    throws(() => unpackAlbum(zipManifest({ version: 1, entries: [entry({ md5: '../x' })] }), limits), /第 1 个表情的 md5/)
+    throws(() => unpackAlbum(zipManifest({ version: 1, entries: [entry(), entry({ tags: 'a' as any })] }), limits), /第 2 个表情的 tags/)
+    throws(() => unpackAlbum(zipManifest({ version: 1, entries: [null] }), limits), /第 1 个表情的 file/)
+  })
+
+  it('enforces size and entry limits before extracting', () => {
+    const big = { 'a.bin': new Uint8Array(2048) }
+    throws(() => unpackAlbum(zipManifest({ version: 1, entries: [] }, big), limits), /过大/)
+
+    const many: Record<string, Uint8Array> = {}
+    for (let i = 0; i < 10; i++) many[`${i}.bin`] = new Uint8Array(1)
+    throws(() => unpackAlbum(zipManifest({ version: 1, entries: [] }, many), limits), /文件过多/)
+
+    const total: Record<string, Uint8Array> = {}
+    for (let i = 0; i < 5; i++) total[`${i}.bin`] = new Uint8Array(1000)
+    throws(() => unpackAlbum(zipManifest({ version: 1, entries: [] }, total), limits), /解压后过大/)
+  })
+})
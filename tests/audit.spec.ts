@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test'
+import { ok, strictEqual, throws } from 'node:assert'
+import { parseTimeRange } from '../src/audit'
+
+describe('parseTimeRange', () => {
+  it('parses recent hours and days', () => {
+    const { since, until } = parseTimeRange('24h')
+    ok(Math.abs(Date.now() - 24 * 60 * 60 * 1000 - since!.getTime()) < 1000)
+    strictEqual(until, undefined)
+    ok(Math.abs(Date.now() - 7 * 24 * 60 * 60 * 1000 - parseTimeRange(' 7D ').since!.getTime()) < 1000)
+  })
+
+  it('includes the whole end day of a date range', () => {
+    const { since, until } = parseTimeRange('2024-05-01~2024-05-10')
+    strictEqual(since!.getTime(), new Date(2024, 4, 1).getTime())
+    strictEqual(until!.getTime(), new Date(2024, 4, 11).getTime())
+    strictEqual(parseTimeRange('2024-5-1').until!.getTime(), new Date(2024, 4, 2).getTime())
+  })
+
+  it('rejects other input', () => {
+    throws(() => parseTimeRange('yesterday'), /无效的时间范围/)
+  })
+})
@@ -0,0 +1,110 @@
+import { after, before, describe, it } from 'node:test'
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert'
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { Context } from 'koishi'
+import { DownloadError, DownloadOptions, Downloader } from '../src/download'
+
+const options: DownloadOptions = {
+  maxSize: 1024,
+  timeout: 5000,
+  retries: 0,
+  concurrency: 2,
+  channelConcurrency: 1,
+  allowPrivate: false,
+}
+
+// 下载器只用到 dispose 事件
+function createDownloader(overrides: Partial<DownloadOptions> = {}) {
+  const disposes: (() => void)[] = []
+  const ctx = { on: (_: string, listener: () => void) => disposes.push(listener) } as unknown as Context
+  return { downloader: new Downloader(ctx, { ...options, ...overrides }), dispose: () => disposes.forEach(listener => listener()) }
+}
+
+const isCode = (code: string) => (error: unknown) => error instanceof DownloadError && error.code === code
+
+describe('Downloader', () => {
+  let server: Server
+  let base: string
+
+  before(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case '/image':
+          return res.end(Buffer.from([1, 2, 3]))
+        case '/redirect':
+          res.writeHead(302, { location: '/image' })
+          return res.end()
+        case '/loop':
+          res.writeHead(302, { location: '/loop' })
+          return res.end()
+        case '/declared':
+          res.writeHead(200, { 'content-length': 4096 })
+          return res.end(Buffer.alloc(4096))
+        case '/streamed':
+          res.write(Buffer.alloc(1000))
+          return res.end(Buffer.alloc(1000))
+        case '/file':
+          res.writeHead(302, { location: 'file:///etc/passwd' })
+          return res.end()
+        default:
+          res.writeHead(404)
+          return res.end()
+      }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => {
+    server.closeAllConnections()
+    server.close()
+  })
+
+  describe('without private addresses', () => {
+    const { downloader, dispose } = createDownloader()
+    after(dispose)
+
+    it('blocks private ip literals and mapped ipv6 addresses', async () => {
+      const { port } = new URL(base)
+      await rejects(downloader.download(`${base}/image`, 'c'), isCode('blocked'))
+      await rejects(downloader.download(`http://[::ffff:127.0.0.1]:${port}/image`, 'c'), isCode('blocked'))
+      await rejects(downloader.download(`http://[::1]:${port}/image`, 'c'), isCode('blocked'))
+      await rejects(downloader.download('http://10.0.0.1/image', 'c'), isCode('blocked'))
+    })
+
+    it('blocks host names that resolve to private addresses', async () => {
+      await rejects(downloader.download(`http://localhost:${new URL(base).port}/image`, 'c'), isCode('blocked'))
+    })
+
+    it('blocks other protocols and invalid urls', async () => {
+      await rejects(downloader.download('file:///etc/passwd', 'c'), isCode('blocked'))
+      await rejects(downloader.download('ftp://example.com/a.png', 'c'), isCode('blocked'))
+      await rejects(downloader.download('not a url', 'c'), isCode('invalid'))
+    })
+  })
+
+  describe('with private addresses allowed', () => {
+    const { downloader, dispose } = createDownloader({ allowPrivate: true })
+    after(dispose)
+
+    it('downloads and follows redirects', async () => {
+      deepStrictEqual([...await downloader.download(`${base}/image`, 'c')], [1, 2, 3])
+      deepStrictEqual([...await downloader.download(`${base}/redirect`, 'c')], [1, 2, 3])
+    })
+
+    it('stops after too many redirects', async () => {
+      await rejects(downloader.download(`${base}/loop`, 'c'), /重定向次数过多/)
+    })
+
+    it('aborts files over the size limit', async () => {
+      await rejects(downloader.download(`${base}/declared`, 'c'), isCode('tooLarge'))
+      await rejects(downloader.download(`${base}/streamed`, 'c'), isCode('tooLarge'))
+      strictEqual((await downloader.download(`${base}/streamed`, 'c', 4096)).length, 2000)
+    })
+
+    it('does not retry client errors', async () => {
+      await rejects(downloader.download(`${base}/missing`, 'c'), (error: DownloadError) => error.code === 'status' && !error.retryable)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test'
+import { deepStrictEqual, throws } from 'node:assert'
+import { EvictionCandidate, EvictionError, evictionOrder, planAlbumEviction, planGlobalEviction } from '../src/eviction'
+
+interface Candidate extends EvictionCandidate {
+  id: number
+}
+
+function candidate(id: number, fields: Partial<Candidate> = {}): Candidate {
+  return { id, md5: `md5-${id}`, size: 100, sendCount: 0, createdAt: new Date(2024, 0, id), ...fields }
+}
+
+const ids = (records: Candidate[]) => records.map(record => record.id)
+
+describe('evictionOrder', () => {
+  const records = [
+    candidate(1, { sendCount: 5, lastSentAt: new Date(2024, 5, 1) }),
+    candidate(2, { size: 300 }),
+    candidate(3, { sendCount: 1 }),
+  ]
+
+  it('orders records by policy', () => {
+    deepStrictEqual(ids(evictionOrder(records, 'oldest')), [1, 2, 3])
+    deepStrictEqual(ids(evictionOrder(records, 'leastRecent')), [2, 3, 1])
+    deepStrictEqual(ids(evictionOrder(records, 'leastFrequent')), [2, 3, 1])
+    deepStrictEqual(ids(evictionOrder(records, 'largest')), [2, 1, 3])
+  })
+})
+
+describe('planAlbumEviction', () => {
+  it('returns nothing while the album has room', () => {
+    deepStrictEqual(planAlbumEviction([candidate(1)], 'oldest', 100, 2, 0), [])
+  })
+
+  it('evicts by count and by size, skipping pinned records', () => {
+    const records = [candidate(1, { pinned: true }), candidate(2), candidate(3)]
+    deepStrictEqual(ids(planAlbumEviction(records, 'oldest', 100, 3, 0)), [2])
+    deepStrictEqual(ids(planAlbumEviction(records, 'oldest', 150, 0, 300)), [2, 3])
+  })
+
+  it('throws tooLarge when the sticker exceeds the album quota', () => {
+    throws(() => planAlbumEviction([], 'oldest', 500, 0, 400), (error: EvictionError) => error.code === 'tooLarge')
+  })
+
+  it('throws full when only pinned records remain', () => {
+    const records = [candidate(1, { pinned: true })]
+    throws(() => planAlbumEviction(records, 'oldest', 100, 1, 0), (error: EvictionError) => error.code === 'full')
+  })
+})
+
+describe('planGlobalEviction', () => {
+  it('returns nothing within the quota', () => {
+    deepStrictEqual(planGlobalEviction([candidate(1)], 'oldest', 100, 100, 200), [])
+  })
+
+  it('keeps evicting until shared files are fully released', () => {
+    const records = [candidate(1, { md5: 'shared' }), candidate(2, { md5: 'shared' }), candidate(3)]
+    // 共用文件只计一次：已用 200，需要腾出 100
+    deepStrictEqual(ids(planGlobalEviction(records, 'oldest', 200, 100, 200)), [1, 2])
+  })
+
+  it('throws when shared or pinned records block the space', () => {
+    const records = [candidate(1, { md5: 'shared' }), candidate(2, { md5: 'shared', pinned: true })]
+    throws(() => planGlobalEviction(records, 'oldest', 100, 150, 200), (error: EvictionError) => error.code === 'full')
+    throws(() => planGlobalEviction(records, 'oldest', 100, 300, 200), (error: EvictionError) => error.code === 'tooLarge')
+  })
+})
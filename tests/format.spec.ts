@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test'
+import { deepStrictEqual, strictEqual, throws } from 'node:assert'
+import { sniffImage } from '../src/format'
+
+function png(width: number, height: number, chunks: Buffer[] = []): Buffer {
+  const ihdr = Buffer.alloc(25)
+  ihdr.writeUInt32BE(13, 0)
+  ihdr.write('IHDR', 4, 'ascii')
+  ihdr.writeUInt32BE(width, 8)
+  ihdr.writeUInt32BE(height, 12)
+  return Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), ihdr, ...chunks])
+}
+
+function bmp(width: number, height: number, headerSize = 40): Buffer {
+  const buffer = Buffer.alloc(14 + headerSize + 16)
+  buffer.write('BM', 0, 'ascii')
+  buffer.writeUInt32LE(buffer.length, 2)
+  buffer.writeUInt32LE(headerSize, 14)
+  if (headerSize === 12) {
+    buffer.writeUInt16LE(width, 18)
+    buffer.writeUInt16LE(height, 20)
+  } else {
+    buffer.writeInt32LE(width, 18)
+    buffer.writeInt32LE(height, 22)
+  }
+  return buffer
+}
+
+describe('sniffImage', () => {
+  it('reads png dimensions and detects apng', () => {
+    deepStrictEqual(sniffImage(png(64, 32)), { mime: 'image/png', ext: 'png', width: 64, height: 32, frameCount: 1, animated: false })
+
+    const actl = Buffer.alloc(20)
+    actl.writeUInt32BE(8, 0)
+    actl.write('acTL', 4, 'ascii')
+    actl.writeUInt32BE(3, 8)
+    const info = sniffImage(png(64, 32, [actl]))
+    strictEqual(info.frameCount, 3)
+    strictEqual(info.animated, true)
+  })
+
+  it('counts gif frames', () => {
+    const frame = Buffer.from([0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0x02, 0x02, 0x44, 0x01, 0x00])
+    const header = Buffer.from([...Buffer.from('GIF89a'), 2, 0, 3, 0, 0, 0, 0])
+    const info = sniffImage(Buffer.concat([header, frame, frame, Buffer.from([0x3b])]))
+    deepStrictEqual([info.mime, info.width, info.height, info.frameCount], ['image/gif', 2, 3, 2])
+  })
+
+  it('accepts bmp files with a matching size and known info header', () => {
+    deepStrictEqual(sniffImage(bmp(16, -8)), { mime: 'image/bmp', ext: 'bmp', width: 16, height: 8, frameCount: 1, animated: false })
+    strictEqual(sniffImage(bmp(20, 10, 12)).width, 20)
+  })
+
+  it('rejects files that only start with BM', () => {
+    const resized = Buffer.concat([bmp(16, 8), Buffer.alloc(4)])
+    throws(() => sniffImage(resized), /无法识别/)
+    throws(() => sniffImage(bmp(16, 8, 64)), /无法识别/)
+    throws(() => sniffImage(Buffer.from('BMW is a car manufacturer')), /无法识别/)
+  })
+
+  it('explains common non-image downloads', () => {
+    throws(() => sniffImage(Buffer.alloc(4)), /过小/)
+    throws(() => sniffImage(Buffer.from('<!DOCTYPE html><html></html>')), /网页/)
+    throws(() => sniffImage(Buffer.from('{"error":"not found"}')), /网页/)
+    throws(() => sniffImage(Buffer.from('\0\0\0\x18ftypmp42\0\0\0\0')), /MP4/)
+    throws(() => sniffImage(Buffer.from('RIFF\0\0\0\0AVI LIST')), /AVI/)
+  })
+})
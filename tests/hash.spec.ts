@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test'
+import { strictEqual } from 'node:assert'
+import { DecodedImage } from '../src/codec'
+import { dHash, hammingDistance, similarity } from '../src/hash'
+
+// 水平渐变，direction 为 1 时从左到右变亮
+function gradient(width: number, height: number, direction: 1 | -1): DecodedImage {
+  const data = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(255 * (direction > 0 ? x : width - 1 - x) / (width - 1))
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { width, height, frames: [{ data, delay: 0 }] }
+}
+
+describe('dHash', () => {
+  it('depends on the image content rather than its size', () => {
+    strictEqual(dHash(gradient(90, 80, -1)), 'ffffffffffffffff')
+    strictEqual(dHash(gradient(90, 80, -1)), dHash(gradient(45, 40, -1)))
+    strictEqual(dHash(gradient(90, 80, 1)), '0000000000000000')
+  })
+})
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    strictEqual(hammingDistance('0000000000000000', '0000000000000000'), 0)
+    strictEqual(hammingDistance('0000000000000000', '000000000000000f'), 4)
+    strictEqual(hammingDistance('0000000000000000', 'ffffffffffffffff'), 64)
+    strictEqual(similarity(16), 75)
+  })
+})
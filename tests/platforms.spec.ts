@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test'
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { h } from 'koishi'
+import {
+  discordAdapter,
+  genericAdapter,
+  kookAdapter,
+  oneBotAdapter,
+  PlatformAdapter,
+  PlatformRegistry,
+  telegramAdapter,
+} from '../src/platforms'
+
+describe('oneBotAdapter', () => {
+  it('extracts images and market faces', () => {
+    const elements = [
+      h.text('看这个'),
+      h('img', { src: 'https://example.com/a.gif' }),
+      h('mface', { url: 'https://example.com/b.png', summary: '[开心]' }),
+    ]
+    deepStrictEqual(oneBotAdapter.extract(elements), [
+      { url: 'https://example.com/a.gif', type: 'img', mime: undefined },
+      { url: 'https://example.com/b.png', type: 'mface', name: '[开心]' },
+    ])
+  })
+
+  it('skips market faces without url', () => {
+    deepStrictEqual(oneBotAdapter.extract([h('mface', { summary: '[开心]' })]), [])
+  })
+})
+
+describe('telegramAdapter', () => {
+  it('extracts static stickers and webm video stickers', () => {
+    const elements = [
+      h('img', { src: 'https://example.com/sticker.webp', mime: 'image/webp' }),
+      h('video', { src: 'https://example.com/sticker.webm' }),
+    ]
+    deepStrictEqual(telegramAdapter.extract(elements), [
+      { url: 'https://example.com/sticker.webp', type: 'img', mime: 'image/webp' },
+      { url: 'https://example.com/sticker.webm', type: 'video', mime: 'video/webm' },
+    ])
+  })
+
+  it('ignores ordinary videos', () => {
+    deepStrictEqual(telegramAdapter.extract([h('video', { src: 'https://example.com/clip.mp4' })]), [])
+  })
+})
+
+describe('discordAdapter', () => {
+  it('extracts stickers and builds urls from ids', () => {
+    const elements = [
+      h('sticker', { id: '1', name: 'wave', format: 'png' }),
+      h('sticker', { id: '2', name: 'dance', format: '4' }),
+      h('sticker', { id: '3', name: 'lottie', format: 'lottie' }),
+    ]
+    deepStrictEqual(discordAdapter.extract(elements), [
+      { url: 'https://media.discordapp.net/stickers/1.png', type: 'sticker', name: 'wave' },
+      { url: 'https://media.discordapp.net/stickers/2.gif', type: 'sticker', name: 'dance' },
+    ])
+  })
+
+  it('extracts custom emojis without duplicating their images', () => {
+    const elements = [
+      h('face', { id: '10', name: 'blob', animated: true }),
+      h('face', { id: '11', name: 'cat' }, h('img', { src: 'https://example.com/cat.png' })),
+      h('img', { src: 'https://example.com/photo.jpg' }),
+    ]
+    deepStrictEqual(discordAdapter.extract(elements), [
+      { url: 'https://cdn.discordapp.com/emojis/10.gif', type: 'face', name: 'blob' },
+      { url: 'https://example.com/cat.png', type: 'face', name: 'cat' },
+      { url: 'https://example.com/photo.jpg', type: 'img', mime: undefined },
+    ])
+  })
+})
+
+describe('kookAdapter', () => {
+  it('builds emoji urls from ids', () => {
+    deepStrictEqual(kookAdapter.extract([h('face', { id: 'abc', name: 'smile' })]), [
+      { url: 'https://img.kookapp.cn/emojis/abc.png', type: 'face', name: 'smile' },
+    ])
+  })
+})
+
+describe('PlatformRegistry', () => {
+  const mockAdapter: PlatformAdapter = {
+    platforms: ['onebot', 'mock'],
+    extract: elements => h.select(elements, 'mock').map(element => ({ url: element.attrs.src, type: 'mock' })),
+  }
+
+  it('falls back to the generic adapter for unknown platforms', () => {
+    const registry = new PlatformRegistry([oneBotAdapter])
+    strictEqual(registry.resolve('unknown'), genericAdapter)
+    strictEqual(registry.resolve('onebot'), oneBotAdapter)
+  })
+
+  it('prefers adapters registered later and restores them when disposed', () => {
+    const registry = new PlatformRegistry([oneBotAdapter])
+    const dispose = registry.register(mockAdapter)
+    const elements = [h('mock', { src: 'https://example.com/mock.png' }), h('img', { src: 'https://example.com/a.png' })]
+    deepStrictEqual(registry.resolve('onebot').extract(elements), [{ url: 'https://example.com/mock.png', type: 'mock' }])
+    strictEqual(registry.resolve('mock'), mockAdapter)
+
+    dispose()
+    strictEqual(registry.resolve('onebot'), oneBotAdapter)
+    strictEqual(registry.resolve('mock'), genericAdapter)
+  })
+})
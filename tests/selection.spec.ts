@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { applySelection, checkNameSyntax, parseSelection, parseTags } from '../src/selection'
+
+const record = (seq: number, name = '', isGif = false, uploaderId = '10') => ({ seq, name, isGif, uploaderId })
+
+describe('parseSelection', () => {
+  it('parses numbers, ranges, keywords and names', () => {
+    deepStrictEqual(parseSelection('5, 10-3，动图、猫猫'), [
+      { type: 'seq', seq: 5 },
+      { type: 'range', start: 3, end: 10 },
+      { type: 'gif' },
+      { type: 'name', name: '猫猫' },
+    ])
+  })
+
+  it('replaces at elements with uploader terms even if nicknames contain commas', () => {
+    deepStrictEqual(parseSelection('<at id="123" name="a,b"/>'), [{ type: 'uploader', userId: '123' }])
+    deepStrictEqual(parseSelection('@456'), [{ type: 'uploader', userId: '456' }])
+  })
+
+  it('does not treat inherited object keys as keywords', () => {
+    deepStrictEqual(parseSelection('constructor'), [{ type: 'name', name: 'constructor' }])
+  })
+})
+
+describe('applySelection', () => {
+  const records = [record(3, '', true), record(1, '猫猫'), record(7, '', false, '20')]
+
+  it('selects records matching any term in seq order', () => {
+    deepStrictEqual(applySelection(records, parseSelection('7,猫猫')).map(item => item.seq), [1, 7])
+    deepStrictEqual(applySelection(records, parseSelection('静态')).map(item => item.seq), [1, 7])
+    deepStrictEqual(applySelection(records, parseSelection('@20')).map(item => item.seq), [7])
+    deepStrictEqual(applySelection(records, parseSelection('全部')).map(item => item.seq), [1, 3, 7])
+  })
+
+  it('returns nothing when no record matches', () => {
+    deepStrictEqual(applySelection(records, parseSelection('2-2')), [])
+  })
+})
+
+describe('checkNameSyntax', () => {
+  it('accepts names that select themselves', () => {
+    strictEqual(checkNameSyntax('猫猫'), undefined)
+    strictEqual(checkNameSyntax('cat 2'), undefined)
+  })
+
+  it('rejects names the selection syntax would read differently', () => {
+    for (const name of ['', '  ', '12', '3-5', '@someone', 'GIF', '全部', 'a,b', '猫、狗']) {
+      strictEqual(typeof checkNameSyntax(name), 'string', name)
+    }
+  })
+})
+
+describe('parseTags', () => {
+  it('splits strings and removes duplicates', () => {
+    deepStrictEqual(parseTags('猫, 狗，猫  可爱'), ['猫', '狗', '可爱'])
+  })
+
+  it('accepts arrays and ignores other values', () => {
+    deepStrictEqual(parseTags([' a ', 'b', '', 1]), ['a', 'b', '1'])
+    deepStrictEqual(parseTags(undefined), [])
+    deepStrictEqual(parseTags({ tags: 'a' }), [])
+  })
+})
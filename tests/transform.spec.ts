@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import { deepStrictEqual, strictEqual, throws } from 'node:assert'
+import { DecodedImage } from '../src/codec'
+import { changeSpeed, cropSquare, flip, parseSize, reverse, rotate, sliceFrames } from '../src/transform'
+
+// 每个像素的红色通道为其序号，便于检查像素位置
+function image(width: number, height: number, delays = [100]): DecodedImage {
+  return {
+    width,
+    height,
+    frames: delays.map(delay => {
+      const data = new Uint8Array(width * height * 4)
+      for (let i = 0; i < width * height; i++) data[i * 4] = i
+      return { data, delay }
+    }),
+  }
+}
+
+const pixels = (image: DecodedImage) => [...image.frames[0].data.filter((_, i) => i % 4 === 0)]
+
+describe('parseSize', () => {
+  const source = image(200, 100)
+
+  it('parses widths, dimensions and percentages', () => {
+    deepStrictEqual(parseSize('100', source), { width: 100, height: 50 })
+    deepStrictEqual(parseSize('64x32', source), { width: 64, height: 32 })
+    deepStrictEqual(parseSize('50%', source), { width: 100, height: 50 })
+  })
+
+  it('rejects invalid or oversized dimensions', () => {
+    throws(() => parseSize('big', source), /无效的尺寸/)
+    throws(() => parseSize('2000', source), /尺寸需在/)
+    throws(() => parseSize('0.1%', source), /尺寸需在/)
+  })
+})
+
+describe('geometry', () => {
+  it('flips and rotates pixels', () => {
+    // 0 1 2
+    // 3 4 5
+    const source = image(3, 2)
+    deepStrictEqual(pixels(flip(source, 'horizontal')), [2, 1, 0, 5, 4, 3])
+    deepStrictEqual(pixels(flip(source, 'vertical')), [3, 4, 5, 0, 1, 2])
+    const rotated = rotate(source, 90)
+    deepStrictEqual([rotated.width, rotated.height], [2, 3])
+    deepStrictEqual(pixels(rotated), [3, 0, 4, 1, 5, 2])
+    deepStrictEqual(pixels(rotate(source, -270)), pixels(rotated))
+    throws(() => rotate(source, 45), /90 的倍数/)
+  })
+
+  it('crops the center square', () => {
+    const cropped = cropSquare(image(4, 2))
+    deepStrictEqual([cropped.width, cropped.height], [2, 2])
+    deepStrictEqual(pixels(cropped), [1, 2, 5, 6])
+  })
+})
+
+describe('frames', () => {
+  const source = image(1, 1, [100, 200, 300, 400])
+
+  it('reverses and changes speed with a minimum delay', () => {
+    deepStrictEqual(reverse(source).frames.map(frame => frame.delay), [400, 300, 200, 100])
+    deepStrictEqual(changeSpeed(source, 2).frames.map(frame => frame.delay), [50, 100, 150, 200])
+    strictEqual(changeSpeed(source, 100).frames[0].delay, 20)
+    throws(() => changeSpeed(source, 0), /大于 0/)
+  })
+
+  it('slices frame ranges', () => {
+    deepStrictEqual(sliceFrames(source, '2-3').frames.map(frame => frame.delay), [200, 300])
+    deepStrictEqual(sliceFrames(source, '3-10').frames.map(frame => frame.delay), [300, 400])
+    throws(() => sliceFrames(source, '5'), /当前共有 4 帧/)
+    throws(() => sliceFrames(source, 'a'), /无效的帧范围/)
+  })
+})
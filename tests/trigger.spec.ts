@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test'
+import { strictEqual } from 'node:assert'
+import { checkRegex, compileTrigger, MAX_REGEX_LENGTH } from '../src/trigger'
+import { StickerTrigger } from '../src/types'
+
+function trigger(phrase: string, mode: StickerTrigger['mode'] = 'regex'): StickerTrigger {
+  return { id: 1, channelId: 'c', stickerId: 1, phrase, mode, creatorId: '10', createdAt: new Date() }
+}
+
+describe('checkRegex', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of ['^早上?好$', '(猫|狗)好可爱', 'a+b*', '[(a+)+]', '\\(a+\\)+', '(ab)+']) {
+      strictEqual(checkRegex(pattern), undefined, pattern)
+    }
+  })
+
+  it('rejects patterns that may backtrack catastrophically', () => {
+    for (const pattern of ['(a+)+', '(a|a)*', '((a)*b)+', '(a{1,3}){2,}', '(\\d+)*$']) {
+      strictEqual(typeof checkRegex(pattern), 'string', pattern)
+    }
+  })
+
+  it('rejects invalid, overlong and backreferencing patterns', () => {
+    strictEqual(typeof checkRegex('(a'), 'string')
+    strictEqual(typeof checkRegex('a'.repeat(MAX_REGEX_LENGTH + 1)), 'string')
+    strictEqual(typeof checkRegex('(a)\\1'), 'string')
+  })
+})
+
+describe('compileTrigger', () => {
+  it('compiles safe regex triggers only', () => {
+    strictEqual(compileTrigger(trigger('^hi$')).pattern?.test('hi'), true)
+    strictEqual(compileTrigger(trigger('(a+)+')).pattern, undefined)
+    strictEqual(compileTrigger(trigger('(a+)+', 'exact')).pattern, undefined)
+  })
+})